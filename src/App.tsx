@@ -11,49 +11,78 @@ import { msToClock, formatTotalDuration } from './utils/time'
 import { Notepad } from './components/Notepad'
 import { ActionsList } from './components/ActionsList'
 import { PostureView } from './components/PostureView'
-import { Toast } from './components/Toast'
+import { Toast, ToastAction } from './components/Toast'
 import { useSound } from './features/audio/useSound'
 import { MusicPlayer } from './features/audio/MusicPlayer'
 import { usePosture } from './context/PostureContext'
-
-// Unified history item types
-interface SessionData {
-  type: "session";
-  id: string;
-  timestamp: number;
-  duration: number;
-  goal: string;
-  posture?: number;
-  distractions: number;
-  comment?: string;
-  difficulty?: 'easy' | 'medium' | 'hard';
-  distractionLog?: string;
-}
-
-interface BreakData {
-  type: "break";
-  id: string;
-  start: number;
-  end: number | null;
-  durationMs: number;
-  note: string;
-}
-
-type HistoryItem = SessionData | BreakData;
-
-// Generate a simple UUID for item IDs
-const generateId = () => {
-  return Date.now().toString(36) + Math.random().toString(36).substring(2);
-};
+import { usePostureTally } from './hooks/usePostureTally'
+import { usePostureTimeline } from './hooks/usePostureTimeline'
+import { getPostureSample, getPosturePercent } from './utils/postureTally'
+import { toTimelineState } from './utils/postureTimeline'
+import { ResumeSessionPrompt } from './components/ResumeSessionPrompt'
+import { useSessionCheckpoint } from './hooks/useSessionCheckpoint'
+import {
+  OngoingSession,
+  loadOngoingSession,
+  clearOngoingSession,
+  getCheckpointElapsedMs,
+  getResumeRemainingMs,
+  getResumeClock,
+  getResumePauses,
+} from './utils/ongoingSession'
+import { SessionData, BreakData, HistoryItem, PauseInterval, DistractionEvent, AutoDistractionEvent, generateId } from './types/history'
+import { usePomodoroCycle } from './hooks/usePomodoroCycle'
+import { PomodoroCycle, getPhaseDurationMs } from './utils/pomodoro'
+import { PomodoroSettings } from './components/PomodoroSettings'
+import { PomodoroStatus } from './components/PomodoroStatus'
+import { PauseReasonPicker } from './components/PauseReasonPicker'
+import { DEFAULT_PAUSE_REASONS, normalizePauseReasons, closePauses } from './utils/pauses'
+import { DEFAULT_DISTRACTION_CATEGORIES, normalizeDistractionCategories } from './utils/distractions'
+import { readClock } from './utils/timerClock'
+import { computeSessionStreak, StreakRules, DEFAULT_STREAK_RULES, normalizeStreakRules, describeStreakRules } from './utils/streak'
+import { useAutoDistractionDetector } from './hooks/useAutoDistractionDetector'
+import { AutoDistractionConfig, DEFAULT_AUTO_DISTRACTION_CONFIG, normalizeAutoDistractionConfig } from './utils/autoDistractions'
+import { AutoDistractionSettings } from './components/AutoDistractionSettings'
+import { StreakRulesSettings } from './components/StreakRulesSettings'
+import { DayStreakSettings } from './components/DayStreakSettings'
+import { StreakBadge } from './components/StreakBadge'
+import { XpBar } from './components/XpBar'
+import { AchievementGallery } from './components/AchievementGallery'
+import { useAchievements } from './hooks/useAchievements'
+import { XP_PER_MINUTE } from './utils/xp'
+import { DayStreakConfig, DEFAULT_DAY_STREAK_CONFIG, computeDayStreak, normalizeDayStreakConfig } from './utils/dayStreak'
+import { loadHistory, saveHistory, getSetting, saveSetting, applyHistoryImport, getTrashId, TrashedItem, TodoItem } from './lib/storage'
+import { DataManagement } from './components/DataManagement'
+import { AccumulatedFocusCounter } from './components/AccumulatedFocusCounter'
+import { FocusHeatmap } from './components/FocusHeatmap'
+import { DayTimeline } from './components/DayTimeline'
+import { useSetting } from './hooks/useSetting'
+import { useTrash } from './hooks/useTrash'
+import { useTodos } from './hooks/useTodos'
+import { TrashBin } from './components/TrashBin'
+import { ProjectStatsTable } from './components/ProjectStatsTable'
+import { normalizeProject, getKnownProjects, getKnownTags } from './utils/projects'
+import { SessionEdits, editSession, deleteHistoryItem, mergeWithOlderSession } from './utils/historyEdits'
 
 // Star field animation constants (increased by ~30% for immediate fullness)
 const STAR_COUNT = 520; // ~30% more stars for full warp
 const STAR_COUNT_BG = 455; // ~30% more stars for background warp
 const MAX_DEPTH = 300;
 
+// How long the undo button stays up after a distraction is logged or something is deleted
+const UNDO_WINDOW_MS = 5000;
+
 // Warp mode types
 type WarpMode = 'none' | 'background' | 'full';
 
+// Close the open break, if any, at the given time
+const closeOpenBreak = (items: HistoryItem[], endTime: number): HistoryItem[] =>
+  items.map(item =>
+    item.type === "break" && item.end === null
+      ? { ...item, end: endTime, durationMs: endTime - item.start }
+      : item
+  );
+
 function App() {
   // Sound effects
   const playStartSound = useSound('start.mp3');
@@ -70,24 +99,60 @@ function App() {
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [currentGoal, setCurrentGoal] = useState('');
   const [currentDifficulty, setCurrentDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const [currentProject, setCurrentProject] = useState('');
+  const [currentTags, setCurrentTags] = useState<string[]>([]);
   const [sessionStartTime, setSessionStartTime] = useState<number>(0);
   const [remainingTime, setRemainingTime] = useState<number>(0);
-  const [distractionCount, setDistractionCount] = useState(0);
+  const [distractionLog, setDistractionLog] = useState<DistractionEvent[]>([]);
+  const distractionCount = distractionLog.length;
+  const [autoDistractions, setAutoDistractions] = useState<AutoDistractionEvent[]>([]);
+  const [autoDistractionConfig, setAutoDistractionConfig] = useSetting<AutoDistractionConfig>('autoDistractionConfig', DEFAULT_AUTO_DISTRACTION_CONFIG, normalizeAutoDistractionConfig);
+  const [distractionCategories, setDistractionCategories] = useSetting<string[]>('distractionCategories', DEFAULT_DISTRACTION_CATEGORIES, normalizeDistractionCategories);
   const [isPaused, setIsPaused] = useState(false);
+  const [pauses, setPauses] = useState<PauseInterval[]>([]);
+  const [pauseReasons, setPauseReasons] = useSetting<string[]>('pauseReasons', DEFAULT_PAUSE_REASONS, normalizePauseReasons);
   const [sessionDurationMs, setSessionDurationMs] = useState<number>(0);
   
   // History State - unified array of sessions and breaks
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  // History is only written back once it has been loaded, so the empty initial state never overwrites it
+  const [historyStatus, setHistoryStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+  // Hour at which daily counters roll over
+  const [dayStartHour, setDayStartHour] = useSetting<number>('dayStartHour', 0);
+  // Day picked on the heatmap, shown in the day timeline
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+
+  // Deleted history entries and todos, restorable for a while
+  const {
+    entries: trashEntries,
+    retentionDays: trashRetentionDays,
+    setRetentionDays: setTrashRetentionDays,
+    moveToTrash,
+    discard: discardFromTrash,
+  } = useTrash();
+  const [showTrash, setShowTrash] = useState(false);
+
+  // Projects and tags offered in the goal input, from earlier sessions
+  const knownProjects = useMemo(() => getKnownProjects(history), [history]);
+  const knownTags = useMemo(() => getKnownTags(history), [history]);
+  const { items: todos, addTodo, toggleTodo, deleteTodo, restoreTodos } = useTodos();
   
-  // Toast state
-  const [toast, setToast] = useState({ show: false, message: '' });
+  // Session interrupted by a reload or crash, waiting for the user to resume or log it
+  const [pendingResume, setPendingResume] = useState<OngoingSession | null>(null);
+
+  // Toast state; id remounts the toast so each message gets its full time on screen
+  const [toast, setToast] = useState<{ show: boolean; message: string; id: number; action?: ToastAction; duration?: number }>({ show: false, message: '', id: 0 });
+  const toastTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Summary State
   const [showSummary, setShowSummary] = useState(false);
   const [lastSession, setLastSession] = useState<SessionData | null>(null);
 
-  // Streak state
-  const [totalStreakSessions, setTotalStreakSessions] = useState(0);
+  // Streak is derived from history, so edits and deletions are reflected right away
+  const [streakRules, setStreakRules] = useSetting<StreakRules>('streakRules', DEFAULT_STREAK_RULES, normalizeStreakRules);
+  const totalStreakSessions = useMemo(() => computeSessionStreak(history, streakRules), [history, streakRules]);
+  const [dayStreakConfig, setDayStreakConfig] = useSetting<DayStreakConfig>('dayStreakConfig', DEFAULT_DAY_STREAK_CONFIG, normalizeDayStreakConfig);
+  const dayStreak = useMemo(() => computeDayStreak(history, dayStreakConfig, dayStartHour), [history, dayStreakConfig, dayStartHour]);
 
   // Warp state
   const [warpMode, setWarpMode] = useState<WarpMode>('none');
@@ -103,6 +168,19 @@ function App() {
   const [badPostureStartTime, setBadPostureStartTime] = useState<number | null>(null);
   const badPostureTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const badPostureTimeThreshold = 10000; // 10 seconds before triggering nudge
+
+  // Good vs bad posture time for the session's posture %, leaving out pauses and time nobody is in frame
+  const posture = usePosture();
+  const postureSample = getPostureSample({
+    isDetecting: posture.isDetecting,
+    isCalibrated: posture.isCalibrated,
+    hasPerson: posture.detectedLandmarks !== undefined,
+    isGood: posture.postureStatus.isGood,
+  });
+  const { readTally: readPostureTally, resetTally: resetPostureTally } = usePostureTally(postureSample, isSessionActive && !isPaused);
+  const { readTimeline: readPostureTimeline, resetTimeline: resetPostureTimeline } =
+    usePostureTimeline(toTimelineState(postureSample, isPaused), isSessionActive);
+  const [postureNudges, setPostureNudges] = useState<number[]>([]);
   
   // Initialize warp stars
   const initWarpStars = useCallback((count: number) => {
@@ -205,9 +283,9 @@ function App() {
       animateWarpStars(warpSpeed);
     }
     
-    // Update state and save to localStorage
+    // Update state and save it to the settings store
     setWarpMode(mode);
-    localStorage.setItem('warpMode', mode);
+    saveSetting('warpMode', mode);
   }, [warpMode, initWarpStars, warpSpeed]);
 
   // Animate warp stars
@@ -279,17 +357,23 @@ function App() {
     warpAnimationFrameIdRef.current = requestAnimationFrame(() => animateWarpStars(speedMultiplier));
   }, []);
   
-  // Load warp settings from localStorage on init
+  // Load warp settings from storage on init
   useEffect(() => {
-    const savedMode = localStorage.getItem('warpMode') as WarpMode | null;
-    if (savedMode && savedMode !== 'none') {
-      setWarpMode(savedMode);
-    }
-    
-    const savedSpeed = localStorage.getItem('warpSpeed');
-    if (savedSpeed) {
-      setWarpSpeed(parseFloat(savedSpeed));
-    }
+    getSetting<WarpMode>('warpMode', 'none')
+      .then(savedMode => {
+        if (savedMode === 'background' || savedMode === 'full') {
+          setWarpMode(savedMode);
+        }
+      })
+      .catch(error => console.error('Failed to load warp mode:', error));
+
+    getSetting<number | null>('warpSpeed', null)
+      .then(savedSpeed => {
+        if (typeof savedSpeed === 'number' && Number.isFinite(savedSpeed)) {
+          setWarpSpeed(savedSpeed);
+        }
+      })
+      .catch(error => console.error('Failed to load warp speed:', error));
   }, []);
   
   // Handle speed change
@@ -298,7 +382,7 @@ function App() {
     const newActualSpeed = Math.max(1, Math.pow(1000, sliderPosition / 100));
     
     setWarpSpeed(newActualSpeed);
-    localStorage.setItem('warpSpeed', newActualSpeed.toString());
+    saveSetting('warpSpeed', newActualSpeed);
     
     if (warpMode !== 'none' && warpAnimationFrameIdRef.current) {
       cancelAnimationFrame(warpAnimationFrameIdRef.current);
@@ -340,42 +424,51 @@ function App() {
     setWarpModeWithEffects('none');
   }, [setWarpModeWithEffects]);
 
+  // Toast display handler
+  const showToast = useCallback((message: string, action?: ToastAction, duration: number = 3000) => {
+    if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+    setToast(prev => ({ show: true, message, id: prev.id + 1, action, duration }));
+    toastTimeoutRef.current = setTimeout(() => setToast(prev => ({ ...prev, show: false })), duration);
+  }, []);
+
+  // Milestones, checked whenever history changes
+  const unlockedAchievements = useAchievements({
+    history,
+    dayStartHour,
+    dayStreakConfig,
+    enabled: historyStatus === 'ready',
+    onUnlock: (achievements) => showToast(
+      achievements.length === 1
+        ? `🏆 Achievement unlocked: ${achievements[0].icon} ${achievements[0].title}`
+        : `🏆 ${achievements.length} achievements unlocked!`
+    ),
+  });
+
   // Load initial data
   useEffect(() => {
-    const storedHistory = JSON.parse(localStorage.getItem('history') || '[]');
-    setHistory(storedHistory);
-    
-    // Load streak count from localStorage
-    const storedStreakCount = localStorage.getItem('totalStreakSessions');
-    if (storedStreakCount) {
-      setTotalStreakSessions(parseInt(storedStreakCount, 10));
-    }
-  }, []);
+    loadHistory()
+      .then(({ items, quarantined }) => {
+        setHistory(items);
+        setHistoryStatus('ready');
+        if (quarantined > 0) {
+          showToast(`${quarantined} damaged history ${quarantined === 1 ? 'entry was' : 'entries were'} set aside.`);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load history:', error);
+        setHistoryStatus('unavailable');
+        showToast("Couldn't open storage. History won't be saved.");
+      });
+
+    // Offer to pick up a session that was running when the tab went away
+    setPendingResume(loadOngoingSession());
+  }, [showToast]);
 
   // Save history data
   useEffect(() => {
-    localStorage.setItem('history', JSON.stringify(history));
-  }, [history]);
-  
-  // Save streak count to localStorage whenever it changes
-  useEffect(() => {
-    localStorage.setItem('totalStreakSessions', totalStreakSessions.toString());
-  }, [totalStreakSessions]);
-  
-  // Toast display handler
-  const showToast = useCallback((message: string) => {
-    setToast({ show: true, message });
-    setTimeout(() => setToast({ show: false, message: '' }), 3000);
-  }, []);
-
-  // Warp distraction handler
-  const handleWarpDistraction = useCallback(() => {
-    if (isSessionActive && !isPaused) {
-      setDistractionCount(prev => prev + 1);
-      playDistractionSound();
-      showToast("Distraction recorded in warp mode!");
-    }
-  }, [isSessionActive, isPaused, setDistractionCount, showToast, playDistractionSound]);
+    if (historyStatus !== 'ready') return;
+    saveHistory(history).catch(error => console.error('Failed to save history:', error));
+  }, [history, historyStatus]);
 
   // Calculate total break time from all completed breaks
   const totalBreakTimeMs = useMemo(() => 
@@ -406,7 +499,9 @@ function App() {
     startTimer: hookStartTimer, 
     pauseTimer: hookPauseTimer, 
     resumeTimer: hookResumeTimer, 
-    stopTimer: hookStopTimer 
+    stopTimer: hookStopTimer,
+    restoreTimer: hookRestoreTimer,
+    getClock: hookGetClock
   } = useTimer({
     // Pass handleTimerEnd callback defined below
     onTimerEnd: () => handleTimerEnd(), // Use arrow function to delay call
@@ -414,6 +509,41 @@ function App() {
     onTimerStart: handleHookTimerStart, 
   });
 
+  // Pomodoro cycle sequencing; break countdowns run inside the hook
+  const pomodoro = usePomodoroCycle({
+    onBreakComplete: (next) => handlePomodoroBreakComplete(next), // Defined below
+  });
+
+  // Checkpoint the live session so it survives a reload or crashed tab
+  const timerClock = hookGetClock();
+  useSessionCheckpoint(isSessionActive && timerClock ? {
+    goal: currentGoal,
+    project: normalizeProject(currentProject),
+    tags: currentTags,
+    difficulty: currentDifficulty,
+    startTimestamp: sessionStartTime,
+    clock: timerClock,
+    distractionCount,
+    distractionLog,
+    autoDistractions,
+    pauses,
+    postureTally: readPostureTally(),
+    postureTimeline: readPostureTimeline(),
+    postureNudges,
+  } : null);
+
+  // Log time spent away from the tab as auto-detected distractions
+  useAutoDistractionDetector({
+    enabled: autoDistractionConfig.enabled && isSessionActive && !isPaused,
+    graceMs: autoDistractionConfig.graceSeconds * 1000,
+    onDetected: (leftAt, awayMs, source) => {
+      const clock = hookGetClock();
+      const offsetMs = clock ? readClock(clock, leftAt).elapsedMs : 0;
+      setAutoDistractions(prev => [...prev, { offsetMs, awayMs, source }]);
+      showToast(`Away for ${msToClock(awayMs)}, logged as a distraction`);
+    },
+  });
+
   // Now define handleTimerEnd using useCallback, referencing the hook function
   const handleTimerEnd = useCallback(() => {
     // Check if it's already stopped
@@ -421,66 +551,89 @@ function App() {
     
     // Play session done sound
     playDoneSound();
+    clearOngoingSession();
     
     console.log(`Ending session. Goal state: '${currentGoal}', Distractions: ${distractionCount}`);
     
-    // 1. Signal the hook to stop its internal processes
-    hookStopTimer(); 
+    // 1. Signal the hook to stop its internal processes and take its exact final reading
+    const finalReading = hookStopTimer();
+
+    // A pomodoro block that ran to the end moves on to its break; stopping early ends the set
+    const workBlock = pomodoro.cycle;
+    const breakPhase = pomodoro.completeWorkBlock(finalReading?.isFinished ?? false);
 
     // 2. Update App state to reflect session end immediately
     setIsSessionActive(false); 
     setIsPaused(false);
+    setPauses([]);
     setRemainingTime(0); // Reset remaining time display explicitly
     setCurrentGoal(''); // Reset the goal when a session ends
 
-    // 3. Update streak: reset if distractions >= 3, else increment
-    if (distractionCount < 3) {
-      setTotalStreakSessions(prev => prev + 1);
-    } else {
-      setTotalStreakSessions(0);
-    }
-
-    // 4. Prepare finished session data
+    // 3. Prepare finished session data
     const sessionData: SessionData = {
       type: "session",
       id: generateId(),
       timestamp: sessionStartTime,
-      duration: Date.now() - sessionStartTime,
+      duration: finalReading ? finalReading.elapsedMs : Date.now() - sessionStartTime,
+      pausedMs: finalReading?.pausedMs ?? 0,
+      pauses: closePauses(pauses, Date.now()),
       goal: currentGoal,
+      project: normalizeProject(currentProject),
+      tags: currentTags.length > 0 ? currentTags : undefined,
       distractions: distractionCount,
-      posture: Math.round(Math.random() * 30 + 70),
+      posture: getPosturePercent(readPostureTally()),
+      postureTimeline: readPostureTimeline(),
+      postureNudges,
       difficulty: currentDifficulty,
-      distractionLog: ''
+      distractionLog,
+      autoDistractions,
+      cycleId: workBlock?.id,
+      cycleBlock: workBlock?.block,
+      // Untimed sessions have no end to stop short of
+      ...(sessionDurationMs === Number.MAX_SAFE_INTEGER
+        ? { untimed: true }
+        : finalReading && !finalReading.isFinished && { endedEarly: true })
     };
     
-    // 5. Create new break data that starts now
+    // 4. Create new break data that starts now
     const breakData: BreakData = {
       type: "break",
       id: generateId(),
       start: Date.now(),
       end: null,
       durationMs: 0,
-      note: ""
+      note: "",
+      ...(breakPhase && {
+        cycleId: breakPhase.id,
+        kind: breakPhase.phase === 'longBreak' ? 'long' : 'short',
+        plannedMs: getPhaseDurationMs(breakPhase.phase, pomodoro.config)
+      })
     };
     
-    // 6. Update history with both the session and the break
+    // 5. Update history with both the session and the break
     const updatedHistory = [breakData, sessionData, ...history];
     setHistory(updatedHistory);
     
-    // 7. Show summary
+    // 6. Show summary
     setLastSession(sessionData);
     setShowSummary(true);
     
-    // 8. Reset per-session counters
-    setDistractionCount(0); 
+    // 7. Reset per-session counters
+    setDistractionLog([]);
+    setAutoDistractions([]);
 
-  }, [isSessionActive, currentGoal, distractionCount, sessionStartTime, history, hookStopTimer, playDoneSound, currentDifficulty]);
+  }, [isSessionActive, currentGoal, currentProject, currentTags, distractionCount, distractionLog, autoDistractions, sessionStartTime, history, hookStopTimer, playDoneSound, currentDifficulty, pomodoro, pauses, sessionDurationMs, readPostureTally, readPostureTimeline, postureNudges]);
 
   // --- Central Session Start Logic ---
-  const handleSessionStart = () => {
+  // goalOverride lets a pomodoro set carry its goal into auto-started blocks
+  const handleSessionStart = (goalOverride?: string) => {
      if (isSessionActive) return;
-     const durationMinutes = isInfinite ? -1 : parseInt(minutes) || 0;
-     if (!isInfinite && durationMinutes <= 0) {
+     const isCycleMode = pomodoro.config.enabled;
+     const runInfinite = isInfinite && !isCycleMode;
+     const durationMinutes = isCycleMode
+       ? pomodoro.config.workMinutes
+       : runInfinite ? -1 : parseInt(minutes) || 0;
+     if (!runInfinite && durationMinutes <= 0) {
        alert("Please enter a duration greater than 0.");
        return;
      }
@@ -488,36 +641,116 @@ function App() {
      // Play session start sound
      playStartSound();
      
-     const finalGoal = currentGoal.trim() || 'YOLO-MODE';
-     const durationMs = isInfinite ? Number.MAX_SAFE_INTEGER : durationMinutes * 60 * 1000;
+     const finalGoal = (goalOverride ?? currentGoal).trim() || 'YOLO-MODE';
+     const durationMs = runInfinite ? Number.MAX_SAFE_INTEGER : durationMinutes * 60 * 1000;
      console.log(`[App] Starting Session: Goal='${finalGoal}', Duration=${durationMinutes}min (${durationMs}ms)`);
      
+     // Open or advance the pomodoro set (no-op outside cycle mode)
+     pomodoro.startWorkBlock(finalGoal);
+
      // Close any open break
-     const updatedHistory = [...history];
-     const openBreak = updatedHistory.find(item => 
-       item.type === "break" && item.end === null
-     ) as BreakData | undefined;
-     
-     if (openBreak) {
-       const endTime = Date.now();
-       openBreak.end = endTime;
-       openBreak.durationMs = endTime - openBreak.start;
-     }
-     
-     setHistory(updatedHistory);
+     setHistory(prev => closeOpenBreak(prev, Date.now()));
      
      setSessionDurationMs(durationMs);
      setCurrentGoal(finalGoal);
      setSessionStartTime(Date.now());
      setRemainingTime(durationMs);
-     setDistractionCount(0);
+     setDistractionLog([]);
+     setAutoDistractions([]);
      setIsPaused(false);
+     setPauses([]);
+     resetPostureTally();
+     resetPostureTimeline(Date.now());
+     setPostureNudges([]);
      setIsSessionActive(true); 
 
      // Explicitly start the timer hook
      hookStartTimer(durationMs);
   };
 
+  // --- Pomodoro Cycle Handlers ---
+  const handlePomodoroBreakComplete = (next: PomodoroCycle | null) => {
+    playDoneSound();
+    if (next && pomodoro.config.autoStartWork) {
+      handleSessionStart(next.goal);
+      return;
+    }
+    setHistory(prev => closeOpenBreak(prev, Date.now()));
+    showToast(next ? `Break over! Block ${next.block} is ready.` : "Pomodoro set complete! 🍅");
+  };
+
+  const handleSkipBreak = () => {
+    const { cycle } = pomodoro;
+    if (!cycle || cycle.phase === 'work') return;
+    if (cycle.phase === 'shortBreak') {
+      handleSessionStart(cycle.goal);
+    } else {
+      // Skipping the long break just closes the set
+      handleEndCycle();
+    }
+  };
+
+  const handleEndCycle = () => {
+    pomodoro.endCycle();
+    setHistory(prev => closeOpenBreak(prev, Date.now()));
+  };
+
+  // --- Interrupted Session Recovery ---
+  const handleResumeOngoing = () => {
+    if (!pendingResume || isSessionActive) return;
+    const now = Date.now();
+    const clock = getResumeClock(pendingResume, now);
+    const remainingMs = getResumeRemainingMs(pendingResume, now);
+
+    setSessionDurationMs(clock.durationMs);
+    setCurrentGoal(pendingResume.goal);
+    setCurrentDifficulty(pendingResume.difficulty);
+    setCurrentProject(pendingResume.project ?? '');
+    setCurrentTags(pendingResume.tags ?? []);
+    setSessionStartTime(pendingResume.startTimestamp);
+    setRemainingTime(remainingMs);
+    setDistractionLog(pendingResume.distractionLog ?? []);
+    setAutoDistractions(pendingResume.autoDistractions ?? []);
+    setIsPaused(clock.pausedAt !== null);
+    setPauses(getResumePauses(pendingResume, now));
+    resetPostureTally(pendingResume.postureTally);
+    resetPostureTimeline(pendingResume.startTimestamp, pendingResume.postureTimeline);
+    setPostureNudges(pendingResume.postureNudges ?? []);
+    setIsSessionActive(true);
+    setPendingResume(null);
+
+    hookRestoreTimer(clock);
+    showToast("Session resumed!");
+  };
+
+  const handleLogOngoingAsPartial = () => {
+    if (!pendingResume) return;
+
+    const partialSession: SessionData = {
+      type: "session",
+      id: generateId(),
+      timestamp: pendingResume.startTimestamp,
+      duration: getCheckpointElapsedMs(pendingResume),
+      pauses: closePauses(pendingResume.pauses ?? [], pendingResume.savedAt),
+      goal: pendingResume.goal,
+      posture: pendingResume.postureTally && getPosturePercent(pendingResume.postureTally),
+      postureTimeline: pendingResume.postureTimeline,
+      postureNudges: pendingResume.postureNudges,
+      project: pendingResume.project,
+      tags: pendingResume.tags?.length ? pendingResume.tags : undefined,
+      distractions: pendingResume.distractionCount,
+      difficulty: pendingResume.difficulty,
+      distractionLog: pendingResume.distractionLog ?? [],
+      autoDistractions: pendingResume.autoDistractions ?? [],
+      partial: true
+    };
+
+    setHistory(prev => [partialSession, ...prev]);
+    clearOngoingSession();
+    setPendingResume(null);
+    showToast("Partial session logged.");
+  };
+
   // --- Other Handlers ---
   const handleGoalSet = (goal: string) => {
     setCurrentGoal(goal);
@@ -525,6 +758,14 @@ function App() {
 
   const handleMinutesChange = (value: string) => {
     if (isSessionActive) return;
+    if (pomodoro.config.enabled) {
+      // In cycle mode the minutes field edits the work block length
+      const num = parseInt(value);
+      if (!isNaN(num) && num > 0) {
+        pomodoro.updateConfig({ workMinutes: num });
+      }
+      return;
+    }
     if (value === '∞') {
       setIsInfinite(true);
       setMinutes('');
@@ -542,6 +783,7 @@ function App() {
       playPauseSound();
       hookPauseTimer(); 
       setIsPaused(true);
+      setPauses(prev => [...prev, { start: Date.now(), end: null }]);
     }
   };
   
@@ -550,15 +792,64 @@ function App() {
       playStartSound();
       hookResumeTimer();
       setIsPaused(false);
+      setPauses(prev => closePauses(prev, Date.now()));
     }
   };
 
-  const handleDistraction = () => {
+  // Tag the current pause with a reason (or clear it)
+  const handlePauseReasonSelect = (reason: string | undefined) => {
+    setPauses(prev => prev.map((pause, i) =>
+      i === prev.length - 1 ? { ...pause, reason } : pause
+    ));
+  };
+
+  const handlePauseReasonsChange = (reasons: string[]) => {
+    setPauseReasons(reasons);
+  };
+
+  // Log a distraction at the current focus time into the session, with a short undo window
+  const recordDistraction = (message: string, category?: string) => {
+    const clock = hookGetClock();
+    const offsetMs = clock ? readClock(clock, Date.now()).elapsedMs : 0;
+    const event: DistractionEvent = category ? { offsetMs, category } : { offsetMs };
+    setDistractionLog(prev => [...prev, event]);
+    // Removing by identity makes a late undo a no-op once the session has been saved
+    showToast(message, {
+      label: 'Undo',
+      onClick: () => setDistractionLog(prev => prev.filter(e => e !== event)),
+    }, UNDO_WINDOW_MS);
+  };
+
+  const handleDistraction = (category?: string) => {
     if (isSessionActive && !isPaused) {
-      setDistractionCount(prev => prev + 1)
+      recordDistraction(category ? `Distraction logged: ${category}` : "Distraction logged", category);
     }
   }
 
+  // Warp distraction handler
+  const handleWarpDistraction = () => {
+    if (isSessionActive && !isPaused) {
+      playDistractionSound();
+      recordDistraction("Distraction recorded in warp mode!");
+    }
+  };
+
+  const handleDistractionCategoriesChange = (categories: string[]) => {
+    setDistractionCategories(categories);
+  };
+
+  const handleAutoDistractionConfigChange = (changes: Partial<AutoDistractionConfig>) => {
+    setAutoDistractionConfig(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleStreakRulesChange = (changes: Partial<StreakRules>) => {
+    setStreakRules(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleDayStreakConfigChange = (changes: Partial<DayStreakConfig>) => {
+    setDayStreakConfig(prev => ({ ...prev, ...changes }));
+  };
+
   // Handler for updating break notes
   const handleBreakNoteChange = (breakId: string, note: string) => {
     setHistory(prev => 
@@ -576,14 +867,73 @@ function App() {
     showToast("Saved! Keep grinding.");
   };
 
+  // --- Trash & Undo ---
+  // Puts items back where they came from and takes them out of the trash
+  const restoreItems = (items: TrashedItem[]) => {
+    const historyItems = items.flatMap(trashed => (trashed.kind === 'history' ? [trashed.item] : []));
+    const todoItems = items.flatMap(trashed => (trashed.kind === 'todo' ? [trashed.item] : []));
+    if (historyItems.length > 0) setHistory(prev => applyHistoryImport(prev, historyItems, 'merge'));
+    if (todoItems.length > 0) restoreTodos(todoItems);
+    discardFromTrash(items.map(getTrashId));
+  };
+
+  const trashWithUndo = (items: TrashedItem[], message: string) => {
+    moveToTrash(items);
+    showToast(message, { label: 'Undo', onClick: () => restoreItems(items) }, UNDO_WINDOW_MS);
+  };
+
+  // Undo for changes that rewrite entries rather than delete them
+  const offerHistoryUndo = (message: string, previous: HistoryItem[]) => {
+    showToast(message, {
+      label: 'Undo',
+      onClick: () => setHistory(prev => applyHistoryImport(prev, previous, 'merge')),
+    }, UNDO_WINDOW_MS);
+  };
+
+  const handleTrashRestore = (items: TrashedItem[]) => {
+    restoreItems(items);
+    showToast(items.length === 1 ? "Item restored." : `${items.length} items restored.`);
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm('Permanently delete everything in the trash?')) {
+      discardFromTrash(trashEntries.map(entry => entry.id));
+    }
+  };
+
+  const handleTodoDelete = (item: TodoItem) => {
+    deleteTodo(item.id);
+    trashWithUndo([{ kind: 'todo', item }], "Task moved to trash.");
+  };
+
+  // --- History Entry Edits (totals and streak are derived from history) ---
+  const handleSessionEdit = (sessionId: string, edits: SessionEdits) => {
+    const previous = history.filter(item => item.id === sessionId);
+    setHistory(prev => editSession(prev, sessionId, edits));
+    offerHistoryUndo("Session updated.", previous);
+  };
+
+  const handleHistoryItemDelete = (itemId: string) => {
+    const item = history.find(entry => entry.id === itemId);
+    if (!item) return;
+    setHistory(prev => deleteHistoryItem(prev, itemId));
+    trashWithUndo([{ kind: 'history', item }], "Entry moved to trash.");
+  };
+
+  const handleSessionMerge = (sessionId: string) => {
+    const merged = mergeWithOlderSession(history, sessionId);
+    // Both sessions and any breaks between them, as they were before the merge
+    const previous = history.filter(item => !merged.includes(item));
+    setHistory(merged);
+    offerHistoryUndo("Sessions merged.", previous);
+  };
+
   // Handler for clearing all history
   const handleClearHistory = () => {
-    if (window.confirm('Are you sure you want to clear all session history and break notes?')) {
+    if (window.confirm('Move all session history and break notes to the trash?')) {
       playCancelSound();
-      localStorage.removeItem('history');
-      localStorage.removeItem('totalStreakSessions');
+      trashWithUndo(history.map(item => ({ kind: 'history', item })), "History moved to trash.");
       setHistory([]);
-      setTotalStreakSessions(0);
     }
   };
 
@@ -592,32 +942,26 @@ function App() {
     setCurrentDifficulty(difficulty);
   };
 
-  // Handle summary panel close with saved comment
-  const handleSummaryClose = () => {
-    if (lastSession) {
-      // Update the session in history with the comment and distractions count
-      setHistory(prev => 
-        prev.map(item => 
-          item.type === "session" && item.id === lastSession.id
-            ? { 
-                ...item, 
-                comment: lastSession.comment,
-                distractions: lastSession.distractions
-              }
-            : item
-        )
-      );
-      
-      // Show appropriate toast message
-      showToast("Session saved!");
-    } else {
-      showToast("Saved!");
-    }
+  // Handle summary panel save with the edited comment and distractions
+  const handleSummarySave = (updated: SessionData) => {
+    // Replace the session in history; the streak recomputes from it
+    setHistory(prev => 
+      prev.map(item => 
+        item.type === "session" && item.id === updated.id ? updated : item
+      )
+    );
+    setLastSession(updated);
+    showToast("Session saved!");
     
     // Close the summary panel
     setShowSummary(false);
   };
 
+  // Streak going into the session shown in the summary
+  const streakBeforeLastSession = useMemo(() =>
+    lastSession ? computeSessionStreak(history.filter(item => item.id !== lastSession.id), streakRules) : 0,
+  [history, lastSession, streakRules]);
+
   // Calculate glow intensity based on streak count
   const getGlowClass = useCallback(() => {
     if (totalStreakSessions < 1) return '';
@@ -694,18 +1038,8 @@ function App() {
         console.log("Posture nudge triggered after 10s of bad posture");
         // Remove the sound notification for posture issues
         // playDistractionSound();
-        setToast({
-          show: true,
-          message: "Please correct your posture!"
-        });
-        
-        // Update session data with posture issue
-        if (lastSession && lastSession.type === 'session') {
-          setLastSession({
-            ...lastSession,
-            posture: (lastSession.posture || 0) + 1
-          });
-        }
+        showToast("Please correct your posture!");
+        setPostureNudges(prev => [...prev, Date.now() - sessionStartTime]);
       }
       
       // Reset timer but keep tracking
@@ -719,7 +1053,7 @@ function App() {
         badPostureTimeoutRef.current = null;
       }
     };
-  }, [postureStatus, badPostureStartTime, isSessionActive, isPaused, lastSession, playDistractionSound]);
+  }, [postureStatus, badPostureStartTime, isSessionActive, isPaused, showToast, sessionStartTime]);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-200">
@@ -752,7 +1086,12 @@ function App() {
         <div className="grid gap-6 grid-cols-1 lg:grid-cols-[345px_minmax(575px,1fr)_300px]">
           {/* Left Column: Actions (top) and Notepad (bottom) */}
           <aside className="flex flex-col gap-6">
-            <ActionsList />
+            <ActionsList
+              items={todos}
+              onAdd={addTodo}
+              onToggle={toggleTodo}
+              onDelete={handleTodoDelete}
+            />
             <Notepad />
           </aside>
           
@@ -772,14 +1111,11 @@ function App() {
                 : 'shadow-lg'}`}
             >
               {/* Streak badge */}
-              {totalStreakSessions > 0 && (
-                <div 
-                  className="absolute -top-2 -right-2 bg-[color:var(--accent-green)] text-white text-xs font-bold px-2 py-1 rounded-full shadow-md" 
-                  title="Keep it under 3 distractions to grow your focus streak"
-                >
-                  🔥 x{totalStreakSessions}
-                </div>
-              )}
+              <StreakBadge
+                sessionStreak={totalStreakSessions}
+                dayStreak={dayStreak}
+                sessionRuleHint={describeStreakRules(streakRules)}
+              />
               
               <div className="flex flex-col md:flex-row items-start md:items-baseline space-y-4 md:space-y-0 md:space-x-4 mb-6">
                 {/* Goal Input */} 
@@ -789,13 +1125,19 @@ function App() {
                     onGoalSet={handleGoalSet}
                     onDifficultySet={handleDifficultySet}
                     onStartSession={handleSessionStart}
+                    project={currentProject}
+                    tags={currentTags}
+                    knownProjects={knownProjects}
+                    knownTags={knownTags}
+                    onProjectChange={setCurrentProject}
+                    onTagsChange={setCurrentTags}
                   />
                 </div>
                 {/* Timer Controls */}
                 <div className="flex-shrink-0"> 
                   <FocusSessionTimer
-                    minutes={minutes}
-                    isInfinite={isInfinite}
+                    minutes={pomodoro.config.enabled ? String(pomodoro.config.workMinutes) : minutes}
+                    isInfinite={isInfinite && !pomodoro.config.enabled}
                     isSessionActive={isSessionActive}
                     isPaused={isPaused}
                     onMinutesChange={handleMinutesChange}
@@ -803,11 +1145,47 @@ function App() {
                     onTimerEnd={handleTimerEnd}
                     onPause={handlePause}
                     onResume={handleResume}
+                    streakCount={totalStreakSessions}
                     isCompact={true}
                   />
                 </div>
               </div>
 
+              {/* Pomodoro cycle settings and progress */}
+              {!isSessionActive && (
+                <PomodoroSettings
+                  config={pomodoro.config}
+                  onChange={pomodoro.updateConfig}
+                  disabled={pomodoro.cycle !== null}
+                />
+              )}
+              {!isSessionActive && (
+                <AutoDistractionSettings
+                  config={autoDistractionConfig}
+                  onChange={handleAutoDistractionConfigChange}
+                />
+              )}
+              {!isSessionActive && (
+                <StreakRulesSettings
+                  rules={streakRules}
+                  onChange={handleStreakRulesChange}
+                />
+              )}
+              {!isSessionActive && (
+                <DayStreakSettings
+                  config={dayStreakConfig}
+                  onChange={handleDayStreakConfigChange}
+                />
+              )}
+              <PomodoroStatus
+                cycle={pomodoro.cycle}
+                config={pomodoro.config}
+                breakRemainingMs={pomodoro.breakRemainingMs}
+                isSessionActive={isSessionActive}
+                onSkipBreak={handleSkipBreak}
+                onEndCycle={handleEndCycle}
+              />
+
               {/* Session Progress Section */}
               {isSessionActive && (
                 <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900 rounded-lg space-y-3">
@@ -820,12 +1198,23 @@ function App() {
                       <DistractionButton 
                         isVisible={isSessionActive && !isPaused}
                         onDistraction={handleDistraction}
+                        categories={distractionCategories}
+                        onCategoriesChange={handleDistractionCategoriesChange}
                         distractionCount={distractionCount}
                         className="warp-control-button"
                       />
                     </div>
                   </div>
 
+                  {isPaused && (
+                    <PauseReasonPicker
+                      reasons={pauseReasons}
+                      selected={pauses[pauses.length - 1]?.reason}
+                      onSelect={handlePauseReasonSelect}
+                      onReasonsChange={handlePauseReasonsChange}
+                    />
+                  )}
+
                   <div className="flex justify-around items-center space-x-6">
                     <div className="text-center">
                       <span className="text-blue-600 dark:text-blue-300 text-sm">Time Remaining</span>
@@ -851,6 +1240,31 @@ function App() {
 
             {/* Session History Section */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700 relative">
+              {/* Today / this week */}
+              <XpBar
+                history={history}
+                dayStartHour={dayStartHour}
+                dailyGoalXp={dayStreakConfig.dailyTargetMinutes * XP_PER_MINUTE}
+              />
+
+              <AccumulatedFocusCounter
+                history={history}
+                dayStartHour={dayStartHour}
+                onDayStartHourChange={setDayStartHour}
+              />
+
+              {/* Year heatmap; a day opens its timeline */}
+              <FocusHeatmap
+                history={history}
+                dayStartHour={dayStartHour}
+                onSelectDay={setSelectedDay}
+              />
+
+              <AchievementGallery unlocked={unlockedAchievements} />
+
+              {/* Totals per project */}
+              <ProjectStatsTable history={history} />
+
               {/* Totals Section - Redesigned to keep box shape with underlying bar */}
               <div className="grid grid-cols-2 gap-3 bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg mb-4">
                 <div className="text-center p-2 bg-white dark:bg-gray-800 rounded shadow-sm relative overflow-hidden">
@@ -883,12 +1297,32 @@ function App() {
               
               <SessionHistory 
                 history={history}
+                streakRules={streakRules}
                 onBreakNoteChange={handleBreakNoteChange}
                 onBreakNoteSave={handleBreakNoteSave}
+                onSessionEdit={handleSessionEdit}
+                onItemDelete={handleHistoryItemDelete}
+                onSessionMerge={handleSessionMerge}
               /> 
 
-              {history.length > 0 && ( 
-                <div className="flex justify-center mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              {/* Backup, restore and clear */}
+              <div className="flex flex-wrap justify-center gap-2 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <DataManagement
+                  history={history}
+                  sessionStreak={totalStreakSessions}
+                  disabled={isSessionActive || historyStatus !== 'ready'}
+                  onError={showToast}
+                />
+                {trashEntries.length > 0 && (
+                  <button
+                    onClick={() => setShowTrash(true)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300 px-3 py-1 rounded font-semibold transition-colors text-xs"
+                    title="Restore deleted items"
+                  >
+                    🗑️ Trash ({trashEntries.length})
+                  </button>
+                )}
+                {history.length > 0 && ( 
                   <button
                     onClick={handleClearHistory}
                     className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded font-semibold transition-opacity dark:opacity-90 dark:hover:opacity-100 text-xs"
@@ -896,8 +1330,8 @@ function App() {
                   >
                     Clear All History
                   </button>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           </div>
           
@@ -959,14 +1393,40 @@ function App() {
         {/* Session Summary Panel */}
         <SessionSummaryPanel 
           isVisible={showSummary}
-          onClose={handleSummaryClose}
+          onSave={handleSummarySave}
           sessionData={lastSession}
-          streakCount={totalStreakSessions}
-          onStreakEnded={() => setTotalStreakSessions(0)}
+          streakCount={streakBeforeLastSession}
+          streakRules={streakRules}
+          categories={distractionCategories}
         />
         
+        {/* Day detail from the heatmap */}
+        <DayTimeline
+          dayStart={selectedDay}
+          history={history}
+          onClose={() => setSelectedDay(null)}
+        />
+
+        {/* Deleted items */}
+        <TrashBin
+          isOpen={showTrash}
+          entries={trashEntries}
+          retentionDays={trashRetentionDays}
+          onRetentionDaysChange={setTrashRetentionDays}
+          onRestore={handleTrashRestore}
+          onEmpty={handleEmptyTrash}
+          onClose={() => setShowTrash(false)}
+        />
+
+        {/* Interrupted session recovery */}
+        <ResumeSessionPrompt
+          session={historyStatus === 'loading' ? null : pendingResume}
+          onResume={handleResumeOngoing}
+          onLogPartial={handleLogOngoingAsPartial}
+        />
+
         {/* Toast Notifications */}
-        {toast.show && <Toast message={toast.message} />}
+        {toast.show && <Toast key={toast.id} message={toast.message} action={toast.action} duration={toast.duration} />}
       </div>
     </div>
   )
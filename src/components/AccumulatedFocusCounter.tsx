@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { HistoryItem } from '../types/history';
+import { formatTotalDuration } from '../utils/time';
+import {
+  AnalyticsPeriod,
+  getPeriodRange,
+  getDayStart,
+  computePeriodStats,
+  computeDailyStats,
+} from '../utils/analytics';
+import { WeeklyFocusBars } from './WeeklyFocusBars';
+
+interface AccumulatedFocusCounterProps {
+  history: HistoryItem[];
+  dayStartHour: number;
+  onDayStartHourChange: (hour: number) => void;
+}
+
+export const AccumulatedFocusCounter = ({ history, dayStartHour, onDayStartHourChange }: AccumulatedFocusCounterProps) => {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('day');
+  const now = Date.now();
+  const { start, end } = getPeriodRange(period, now, dayStartHour);
+
+  const stats = computePeriodStats(history, start, end, now);
+  const days = period === 'week' ? computeDailyStats(history, start, end, now) : [];
+
+  const cards = [
+    { label: 'Focus', value: formatTotalDuration(stats.focusMs) },
+    {
+      label: 'Sessions',
+      value: period === 'week' ? `${stats.sessions} (${(stats.sessions / 7).toFixed(1)}/day)` : String(stats.sessions),
+    },
+    { label: 'Avg session', value: formatTotalDuration(stats.averageSessionMs) },
+    { label: 'Breaks', value: formatTotalDuration(stats.breakMs) },
+    { label: 'Break ratio', value: `${Math.round(stats.breakRatio * 100)}%` },
+    { label: 'Distractions/h', value: stats.distractionsPerHour.toFixed(1) },
+  ];
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex rounded-md overflow-hidden text-xs font-medium">
+          {(['day', 'week'] as AnalyticsPeriod[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setPeriod(option)}
+              className={`px-3 py-1 transition-colors ${
+                period === option
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-white text-gray-600 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option === 'day' ? 'Today' : 'This week'}
+            </button>
+          ))}
+        </div>
+        <label className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1" title="When the daily counters reset">
+          Day starts
+          <select
+            value={dayStartHour}
+            onChange={(e) => onDayStartHourChange(parseInt(e.target.value))}
+            className="px-1 py-0.5 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {cards.map(card => (
+          <div key={card.label} className="text-center p-2 bg-white dark:bg-gray-800 rounded shadow-sm">
+            <div className="text-[10px] text-gray-500 dark:text-gray-400 uppercase tracking-wide">{card.label}</div>
+            <div className="text-sm font-bold text-gray-800 dark:text-gray-200">{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {period === 'week' && (
+        <WeeklyFocusBars days={days} currentDayStart={getDayStart(now, dayStartHour)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { format } from 'date-fns';
+import { ACHIEVEMENTS, UnlockedAchievements } from '../utils/achievements';
+
+interface AchievementGalleryProps {
+  unlocked: UnlockedAchievements;
+}
+
+export const AchievementGallery = ({ unlocked }: AchievementGalleryProps) => {
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => achievement.id in unlocked).length;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg mb-4">
+      <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+        🏆 Achievements {unlockedCount}/{ACHIEVEMENTS.length}
+      </h3>
+      <div className="flex flex-wrap gap-2">
+        {ACHIEVEMENTS.map(achievement => {
+          const unlockedAt = unlocked[achievement.id];
+          return (
+            <div
+              key={achievement.id}
+              title={`${achievement.title}: ${achievement.description}${unlockedAt ? ` · unlocked ${format(unlockedAt, 'PP')}` : ''}`}
+              className={`w-10 h-10 rounded-full flex items-center justify-center text-xl ${
+                unlockedAt
+                  ? 'bg-yellow-100 dark:bg-yellow-900/40 ring-2 ring-yellow-400'
+                  : 'bg-gray-200 dark:bg-gray-600 grayscale opacity-40'
+              }`}
+            >
+              {achievement.icon}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
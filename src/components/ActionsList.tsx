@@ -1,76 +1,33 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useSound } from '../features/audio/useSound';
+import { TodoItem } from '../lib/storage';
 
-interface TodoItem {
-  id: string;
-  text: string;
-  done: boolean;
+interface ActionsListProps {
+  items: TodoItem[];
+  onAdd: (text: string) => void;
+  onToggle: (id: string) => void;
+  onDelete: (item: TodoItem) => void;
 }
 
-export const ActionsList = () => {
-  const [items, setItems] = useState<TodoItem[]>([]);
+export const ActionsList = ({ items, onAdd, onToggle, onDelete }: ActionsListProps) => {
   const [newItemText, setNewItemText] = useState('');
   const playCheckSound = useSound('check.mp3');
   
-  // Load items from localStorage
-  useEffect(() => {
-    const savedItems = localStorage.getItem('todo');
-    if (savedItems) {
-      try {
-        const parsedItems = JSON.parse(savedItems);
-        if (Array.isArray(parsedItems)) {
-          setItems(parsedItems);
-        }
-      } catch (error) {
-        console.error('Failed to parse todo items:', error);
-      }
-    }
-  }, []);
-  
-  // Save items to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('todo', JSON.stringify(items));
-  }, [items]);
-  
-  // Generate a simple ID for new items
-  const generateId = () => {
-    return Date.now().toString(36) + Math.random().toString(36).substring(2);
-  };
-  
   // Add a new item
   const handleAddItem = (e: React.FormEvent) => {
     e.preventDefault();
     if (newItemText.trim() === '') return;
     
-    const newItem: TodoItem = {
-      id: generateId(),
-      text: newItemText.trim(),
-      done: false
-    };
-    
-    setItems(prev => [newItem, ...prev]);
+    onAdd(newItemText.trim());
     setNewItemText('');
   };
   
   // Toggle item completion
-  const handleToggleItem = (id: string) => {
-    setItems(prev => 
-      prev.map(item => {
-        if (item.id === id) {
-          const newDone = !item.done;
-          if (newDone) {
-            playCheckSound();
-          }
-          return { ...item, done: newDone };
-        }
-        return item;
-      })
-    );
-  };
-  
-  // Delete item
-  const handleDeleteItem = (id: string) => {
-    setItems(prev => prev.filter(item => item.id !== id));
+  const handleToggleItem = (item: TodoItem) => {
+    if (!item.done) {
+      playCheckSound();
+    }
+    onToggle(item.id);
   };
   
   return (
@@ -115,7 +72,7 @@ export const ActionsList = () => {
                 <input
                   type="checkbox"
                   checked={item.done}
-                  onChange={() => handleToggleItem(item.id)}
+                  onChange={() => handleToggleItem(item)}
                   className="h-5 w-5 rounded border-gray-300 text-blue-600 transition-colors
                     focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 cursor-pointer"
                 />
@@ -124,7 +81,7 @@ export const ActionsList = () => {
                 </span>
               </div>
               <button
-                onClick={() => handleDeleteItem(item.id)}
+                onClick={() => onDelete(item)}
                 className="text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
                 aria-label="Delete item"
               >
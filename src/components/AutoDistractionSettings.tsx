@@ -0,0 +1,46 @@
+import { AutoDistractionConfig } from '../utils/autoDistractions';
+
+interface AutoDistractionSettingsProps {
+  config: AutoDistractionConfig;
+  onChange: (changes: Partial<AutoDistractionConfig>) => void;
+}
+
+export const AutoDistractionSettings = ({ config, onChange }: AutoDistractionSettingsProps) => {
+  const handleGraceChange = (value: string) => {
+    const num = parseInt(value);
+    if (!isNaN(num) && num >= 0) {
+      onChange({ graceSeconds: num });
+    }
+  };
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+      <label className="inline-flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="rounded border-gray-300 dark:border-gray-600"
+        />
+        <span className="font-medium">🤖 Detect leaving the tab</span>
+      </label>
+
+      {config.enabled && (
+        <div className="mt-2 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1">
+            <span>Grace</span>
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={config.graceSeconds}
+              onChange={(e) => handleGraceChange(e.target.value)}
+              className="w-14 px-1 py-0.5 border rounded text-center dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+            <span>sec</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -8,6 +8,8 @@ interface BreakEntryProps {
   onNoteChange: (note: string) => void;
   onNoteSave: (note: string) => void;
   isActive: boolean;     // Whether this is the current active break
+  kind?: 'short' | 'long'; // Pomodoro break length, if part of a set
+  onDelete: () => void;
 }
 
 export const BreakEntry = ({ 
@@ -16,7 +18,9 @@ export const BreakEntry = ({
   note, 
   onNoteChange, 
   onNoteSave,
-  isActive 
+  isActive,
+  kind,
+  onDelete
 }: BreakEntryProps) => {
   const [elapsedTime, setElapsedTime] = useState<number>(0);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -54,10 +58,10 @@ export const BreakEntry = ({
   };
   
   return (
-    <div className="bg-gray-100 dark:bg-gray-700 rounded p-2 text-xs flex items-center space-x-3">
+    <div className="group bg-gray-100 dark:bg-gray-700 rounded p-2 text-xs flex items-center space-x-3">
       {/* Break duration */}
       <span className="text-gray-500 dark:text-gray-400 flex-shrink-0 italic">
-        ⏱ {msToClock(elapsedTime)} break
+        ⏱ {msToClock(elapsedTime)} {kind ? `${kind} break` : 'break'}
       </span>
       {/* Note input - takes remaining space */}
       <input
@@ -71,6 +75,13 @@ export const BreakEntry = ({
           placeholder-gray-400 dark:placeholder-gray-500 text-xs italic
           focus:outline-none p-1 -m-1"
       />
+      <button
+        onClick={onDelete}
+        className="hidden group-hover:block flex-shrink-0 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        title="Delete break"
+      >
+        🗑️
+      </button>
     </div>
   );
 }; 
\ No newline at end of file
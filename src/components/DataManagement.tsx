@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { HistoryItem } from '../types/history';
+import {
+  ParsedBackup,
+  ImportMode,
+  createBackup,
+  restoreBackup,
+  parseBackup,
+  sessionsToCsv,
+  applyHistoryImport,
+  findReplacedItems,
+  mergeTodos,
+  mergeNotepad,
+  getSetting,
+  isTodoList,
+  addToTrash,
+  getTrashId,
+  TrashedItem,
+} from '../lib/storage';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+
+interface DataManagementProps {
+  history: HistoryItem[];
+  sessionStreak: number;
+  disabled?: boolean; // Importing reloads the page, so it's blocked during a session
+  onError: (message: string) => void;
+}
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const buttonClass = 'px-3 py-1 rounded font-semibold text-xs bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-50';
+
+export const DataManagement = ({ history, sessionStreak, disabled = false, onError }: DataManagementProps) => {
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dateStamp = format(Date.now(), 'yyyy-MM-dd');
+
+  const handleExportJson = async () => {
+    try {
+      const bundle = await createBackup(history, sessionStreak);
+      downloadFile(JSON.stringify(bundle, null, 2), `deepwork-backup-${dateStamp}.json`, 'application/json');
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      onError("Export failed.");
+    }
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(sessionsToCsv(history), `deepwork-sessions-${dateStamp}.csv`, 'text/csv');
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const result = parseBackup(await file.text());
+    if (result.ok) {
+      setParsed(result.value);
+    } else {
+      onError(`Import failed: ${result.reason}`);
+    }
+  };
+
+  const handleConfirm = async (mode: ImportMode) => {
+    if (!parsed) return;
+    const { bundle } = parsed;
+    try {
+      const storedTodos = await getSetting<unknown>('todo', []);
+      const currentTodos = isTodoList(storedTodos) ? storedTodos : [];
+      const currentNote = await getSetting('notepad', '');
+      if (mode === 'replace') {
+        // Keep what the backup drops or overwrites restorable from the trash
+        const replaced: TrashedItem[] = [
+          ...findReplacedItems(history, bundle.history).map(item => ({ kind: 'history' as const, item })),
+          ...findReplacedItems(currentTodos, bundle.todos).map(item => ({ kind: 'todo' as const, item })),
+        ];
+        const deletedAt = Date.now();
+        await addToTrash(replaced.map(trashed => ({ ...trashed, id: getTrashId(trashed), deletedAt })));
+      }
+      await restoreBackup({
+        history: applyHistoryImport(history, bundle.history, mode),
+        todos: mergeTodos(currentTodos, bundle.todos, mode),
+        notepad: mergeNotepad(currentNote, bundle.notepad, mode),
+        settings: mode === 'replace' ? bundle.settings : {},
+      });
+      // Todos, notes and settings are held in component state; start fresh from storage
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      onError("Import failed while saving.");
+      setParsed(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <button onClick={handleExportJson} className={buttonClass} title="Download all data as a JSON backup">
+          Export JSON
+        </button>
+        <button onClick={handleExportCsv} className={buttonClass} title="Download sessions as a spreadsheet">
+          Export CSV
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className={buttonClass}
+          title={disabled ? 'Finish the session before importing' : 'Import a JSON backup'}
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChosen}
+          className="hidden"
+        />
+      </div>
+
+      <ImportPreviewDialog
+        parsed={parsed}
+        currentHistory={history}
+        onConfirm={handleConfirm}
+        onCancel={() => setParsed(null)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { DayStreakConfig } from '../utils/dayStreak';
+
+interface DayStreakSettingsProps {
+  config: DayStreakConfig;
+  onChange: (changes: Partial<DayStreakConfig>) => void;
+}
+
+const NUMBER_FIELDS: { key: 'dailyTargetMinutes' | 'freezeEveryDays' | 'maxFreezes'; label: string; unit: string; min: number; max: number }[] = [
+  { key: 'dailyTargetMinutes', label: 'Daily target', unit: 'min', min: 1, max: 720 },
+  { key: 'freezeEveryDays', label: 'Freeze every', unit: 'days', min: 0, max: 60 },
+  { key: 'maxFreezes', label: 'Max freezes', unit: '', min: 0, max: 10 },
+];
+
+// Monday first, matching the week view
+const WEEKDAYS = [
+  { day: 1, label: 'M' }, { day: 2, label: 'T' }, { day: 3, label: 'W' }, { day: 4, label: 'T' },
+  { day: 5, label: 'F' }, { day: 6, label: 'S' }, { day: 0, label: 'S' },
+];
+
+export const DayStreakSettings = ({ config, onChange }: DayStreakSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleNumberChange = (field: typeof NUMBER_FIELDS[number], value: string) => {
+    const num = parseInt(value);
+    if (!isNaN(num) && num >= field.min) {
+      onChange({ [field.key]: num });
+    }
+  };
+
+  const toggleRestDay = (day: number) => {
+    onChange({
+      restDays: config.restDays.includes(day)
+        ? config.restDays.filter(d => d !== day)
+        : [...config.restDays, day],
+    });
+  };
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+      <button onClick={() => setIsOpen(prev => !prev)} className="font-medium hover:text-gray-800 dark:hover:text-gray-200">
+        📅 Day streak {isOpen ? '▾' : '▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            {NUMBER_FIELDS.map(field => (
+              <label key={field.key} className="flex items-center gap-1">
+                <span>{field.label}</span>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  value={config[field.key]}
+                  onChange={(e) => handleNumberChange(field, e.target.value)}
+                  className="w-14 px-1 py-0.5 border rounded text-center dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                {field.unit && <span>{field.unit}</span>}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="mr-1" title="Rest days neither count nor break the streak">Rest days</span>
+            {WEEKDAYS.map(({ day, label }) => (
+              <button
+                key={day}
+                onClick={() => toggleRestDay(day)}
+                className={`w-6 h-6 rounded-full font-medium transition-colors ${
+                  config.restDays.includes(day)
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
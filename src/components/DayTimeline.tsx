@@ -0,0 +1,91 @@
+import { addDays, format } from 'date-fns';
+import { HistoryItem } from '../types/history';
+import { formatTotalDuration } from '../utils/time';
+import { computePeriodStats, getSessionEnd } from '../utils/analytics';
+
+interface DayTimelineProps {
+  dayStart: number | null;
+  history: HistoryItem[];
+  onClose: () => void;
+}
+
+// Hour labels along the axis
+const TICK_HOURS = [0, 6, 12, 18, 24];
+
+export const DayTimeline = ({ dayStart, history, onClose }: DayTimelineProps) => {
+  if (dayStart === null) return null;
+
+  const dayEnd = addDays(dayStart, 1).getTime();
+  const now = Date.now();
+  const dayLength = dayEnd - dayStart;
+
+  // Items that overlap the day, oldest first, with their wall-clock span
+  const entries = history
+    .map(item => item.type === "session"
+      ? { item, start: item.timestamp, end: getSessionEnd(item) }
+      : { item, start: item.start, end: item.end ?? now })
+    .filter(entry => entry.start < dayEnd && entry.end > dayStart)
+    .sort((a, b) => a.start - b.start);
+  const stats = computePeriodStats(history, dayStart, dayEnd, now);
+
+  const toPercent = (time: number) => ((Math.min(Math.max(time, dayStart), dayEnd) - dayStart) / dayLength) * 100;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-2xl w-full mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-semibold">📅 {format(dayStart, 'EEEE d MMMM yyyy')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">✕</button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {formatTotalDuration(stats.focusMs)} focus in {stats.sessions} {stats.sessions === 1 ? 'session' : 'sessions'} · {formatTotalDuration(stats.breakMs)} breaks
+        </p>
+
+        {/* Clock axis */}
+        <div className="relative h-8 rounded bg-gray-100 dark:bg-gray-700">
+          {entries.map(({ item, start, end }) => (
+            <div
+              key={item.id}
+              className={`absolute top-1 bottom-1 rounded-sm ${item.type === "session" ? 'bg-blue-500' : 'bg-amber-400 dark:bg-amber-500'}`}
+              style={{ left: `${toPercent(start)}%`, width: `max(2px, ${toPercent(end) - toPercent(start)}%)` }}
+              title={`${format(start, 'HH:mm')}–${format(end, 'HH:mm')} ${item.type === "session" ? item.goal : 'Break'}`}
+            />
+          ))}
+        </div>
+        <div className="relative h-4 text-[10px] text-gray-500 dark:text-gray-400">
+          {TICK_HOURS.map(hour => (
+            <span
+              key={hour}
+              className="absolute -translate-x-1/2"
+              style={{ left: `${(hour / 24) * 100}%` }}
+            >
+              {format(dayStart + hour * 60 * 60 * 1000, 'HH:mm')}
+            </span>
+          ))}
+        </div>
+
+        {/* Entry list */}
+        <ul className="mt-4 space-y-1 text-sm max-h-64 overflow-y-auto">
+          {entries.length === 0 && (
+            <li className="text-gray-500 dark:text-gray-400">Nothing recorded this day.</li>
+          )}
+          {entries.map(({ item, start, end }) => (
+            <li key={item.id} className="flex items-center gap-3">
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400 w-24">
+                {format(start, 'HH:mm')}–{format(end, 'HH:mm')}
+              </span>
+              {item.type === "session" ? (
+                <span className="truncate">🎯 {item.goal} · ❌ {item.distractions}</span>
+              ) : (
+                <span className="truncate text-amber-700 dark:text-amber-300">☕ Break{item.note ? ` · ${item.note}` : ''}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { getSetting, saveSetting } from '../lib/storage';
+import { ProjectTagPicker } from './ProjectTagPicker';
 
 interface DeepFocusInputProps {
   isSessionActive: boolean;
@@ -6,6 +8,13 @@ interface DeepFocusInputProps {
   onDifficultySet?: (difficulty: 'easy' | 'medium' | 'hard') => void;
   onStartSession: (goal: string) => void;
   className?: string;
+  // Project and tags stay selected between sessions
+  project: string;
+  tags: string[];
+  knownProjects: string[];
+  knownTags: string[];
+  onProjectChange: (project: string) => void;
+  onTagsChange: (tags: string[]) => void;
 }
 
 const PLACEHOLDER_TEXTS = [
@@ -31,24 +40,32 @@ const PLACEHOLDER_TEXTS = [
   "The task that survived 100 todo lists"
 ];
 
-export const DeepFocusInput = ({ isSessionActive, onGoalSet, onStartSession, className = '', onDifficultySet }: DeepFocusInputProps) => {
+export const DeepFocusInput = ({ isSessionActive, onGoalSet, onStartSession, className = '', onDifficultySet, ...projectProps }: DeepFocusInputProps) => {
   const [goal, setGoal] = useState('');
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
   const [isFocused, setIsFocused] = useState(false);
   const [previousActiveState, setPreviousActiveState] = useState(isSessionActive);
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
 
-  // Store difficulty in localStorage
-  useEffect(() => {
-    localStorage.setItem('lastDifficulty', difficulty);
-  }, [difficulty]);
+  const [isDifficultyLoaded, setIsDifficultyLoaded] = useState(false);
 
-  // Load difficulty from localStorage on init
+  // Store difficulty once the saved one has been loaded
   useEffect(() => {
-    const savedDifficulty = localStorage.getItem('lastDifficulty') as 'easy' | 'medium' | 'hard' | null;
-    if (savedDifficulty) {
-      setDifficulty(savedDifficulty);
+    if (isDifficultyLoaded) {
+      saveSetting('lastDifficulty', difficulty);
     }
+  }, [difficulty, isDifficultyLoaded]);
+
+  // Load difficulty from storage on init
+  useEffect(() => {
+    getSetting<string | null>('lastDifficulty', null)
+      .then(savedDifficulty => {
+        if (savedDifficulty === 'easy' || savedDifficulty === 'medium' || savedDifficulty === 'hard') {
+          setDifficulty(savedDifficulty);
+        }
+        setIsDifficultyLoaded(true);
+      })
+      .catch(error => console.error('Failed to load difficulty:', error));
   }, []);
 
   // Rotate placeholder text every 5 seconds
@@ -132,6 +149,9 @@ export const DeepFocusInput = ({ isSessionActive, onGoalSet, onStartSession, cla
         />
       </div>
       
+      {/* Project and tags */}
+      {!isSessionActive && <ProjectTagPicker {...projectProps} />}
+
       {/* Difficulty selector */}
       {!isSessionActive && (
         <div className="flex gap-2 text-xs">
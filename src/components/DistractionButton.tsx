@@ -1,13 +1,18 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { useSound } from '../features/audio/useSound';
 
 interface DistractionButtonProps {
   isVisible: boolean;
-  onDistraction: () => void;
+  onDistraction: (category?: string) => void;
   distractionCount: number; // Receive count from App
+  categories: string[];
+  onCategoriesChange: (categories: string[]) => void;
   className?: string; // Optional className prop
 }
 
+// Holding the button this long opens the category menu instead of logging
+const LONG_PRESS_MS = 500;
+
 // Helper to generate tally marks
 const TallyMarks = ({ count }: { count: number }) => {
   const fullGroups = Math.floor(count / 5);
@@ -29,32 +34,108 @@ export const DistractionButton = ({
   isVisible, 
   onDistraction, 
   distractionCount,
+  categories,
+  onCategoriesChange,
   className = '' // Default to empty string
 }: DistractionButtonProps) => {
   // Load and play distraction sound
   const playDistractionSound = useSound('distraction.mp3');
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [newCategory, setNewCategory] = useState('');
+  const longPressTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFiredRef = useRef(false);
 
-  const handleButtonClick = () => {
+  const logDistraction = (category?: string) => {
     playDistractionSound();
-    onDistraction(); // Call directly
+    onDistraction(category);
+    setIsMenuOpen(false);
+  };
+
+  const handleButtonClick = () => {
+    // The click that ends a long press only opened the menu
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false;
+      return;
+    }
+    logDistraction();
+  };
+
+  const handlePressStart = () => {
+    longPressFiredRef.current = false;
+    longPressTimeoutRef.current = setTimeout(() => {
+      longPressFiredRef.current = true;
+      setIsMenuOpen(true);
+    }, LONG_PRESS_MS);
+  };
+
+  const handlePressEnd = () => {
+    if (longPressTimeoutRef.current) {
+      clearTimeout(longPressTimeoutRef.current);
+      longPressTimeoutRef.current = null;
+    }
+  };
+
+  const handleAddCategory = () => {
+    const category = newCategory.trim();
+    if (category && !categories.includes(category)) {
+      onCategoriesChange([...categories, category]);
+    }
+    setNewCategory('');
   };
 
   if (!isVisible) return null;
 
   return (
-    <button
-      onClick={handleButtonClick}
-      className={`
-        flex items-center
-        bg-red-600 hover:bg-red-700 text-white
-        px-3 py-1 rounded font-semibold 
-        transition-opacity dark:opacity-90 dark:hover:opacity-100
-        ${className}
-      `}
-      title="Log a distraction"
-    >
-      <span>DISTRACTED</span>
-      <TallyMarks count={distractionCount} />
-    </button>
+    <div className="relative flex">
+      <button
+        onClick={handleButtonClick}
+        onPointerDown={handlePressStart}
+        onPointerUp={handlePressEnd}
+        onPointerLeave={handlePressEnd}
+        onContextMenu={(e) => e.preventDefault()}
+        className={`
+          flex items-center
+          bg-red-600 hover:bg-red-700 text-white
+          px-3 py-1 rounded-l font-semibold 
+          transition-opacity dark:opacity-90 dark:hover:opacity-100
+          ${className}
+        `}
+        title="Log a distraction (hold to pick a category)"
+      >
+        <span>DISTRACTED</span>
+        <TallyMarks count={distractionCount} />
+      </button>
+      <button
+        onClick={() => setIsMenuOpen(prev => !prev)}
+        className="px-2 rounded-r bg-red-700 hover:bg-red-800 text-white text-xs border-l border-red-500"
+        title="Pick a category"
+      >
+        ▾
+      </button>
+
+      {/* Category quick menu */}
+      {isMenuOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-44 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2 text-sm">
+          {categories.map(category => (
+            <button
+              key={category}
+              onClick={() => logDistraction(category)}
+              className="block w-full text-left px-2 py-1 rounded text-gray-800 dark:text-gray-200 hover:bg-red-50 dark:hover:bg-red-900/30"
+            >
+              {category}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddCategory(); }}
+            maxLength={20}
+            placeholder="+ New category"
+            className="mt-1 w-full px-2 py-1 border rounded text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      )}
+    </div>
   );
 }; 
\ No newline at end of file
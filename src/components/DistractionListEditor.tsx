@@ -0,0 +1,56 @@
+import { msToClock } from '../utils/time';
+import { DistractionEvent } from '../types/history';
+import { UNCATEGORIZED } from '../utils/distractions';
+
+interface DistractionListEditorProps {
+  events: DistractionEvent[];
+  categories: string[];
+  onChange: (events: DistractionEvent[]) => void;
+}
+
+export const DistractionListEditor = ({ events, categories, onChange }: DistractionListEditorProps) => {
+  if (events.length === 0) return null;
+
+  const handleCategoryChange = (index: number, category: string) => {
+    onChange(events.map((event, i) =>
+      i === index ? { offsetMs: event.offsetMs, ...(category && { category }) } : event
+    ));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(events.filter((_, i) => i !== index));
+  };
+
+  return (
+    <ul className="max-h-32 overflow-y-auto space-y-1 text-sm">
+      {events.map((event, i) => {
+        // Keep categories that were deleted from the list selectable on old events
+        const options = event.category && !categories.includes(event.category)
+          ? [...categories, event.category]
+          : categories;
+        return (
+          <li key={i} className="flex items-center gap-2">
+            <span className="w-12 text-gray-500 dark:text-gray-400 font-mono text-xs">{msToClock(event.offsetMs)}</span>
+            <select
+              value={event.category ?? ''}
+              onChange={(e) => handleCategoryChange(i, e.target.value)}
+              className="flex-1 px-1 py-0.5 border rounded text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="">{UNCATEGORIZED}</option>
+              {options.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleRemove(i)}
+              className="text-xs text-gray-400 hover:text-red-500"
+              title="Remove this distraction"
+            >
+              ✕
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
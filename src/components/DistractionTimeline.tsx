@@ -0,0 +1,29 @@
+import { msToClock } from '../utils/time';
+import { DistractionEvent } from '../types/history';
+import { UNCATEGORIZED } from '../utils/distractions';
+
+interface DistractionTimelineProps {
+  events: DistractionEvent[];
+  durationMs: number;
+}
+
+// Session laid out as a bar from start to finish, one marker per distraction
+export const DistractionTimeline = ({ events, durationMs }: DistractionTimelineProps) => {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="relative h-3 rounded-full bg-gray-200 dark:bg-gray-700" aria-label="Distraction timeline">
+      {events.map((event, i) => {
+        const position = durationMs > 0 ? Math.min(100, (event.offsetMs / durationMs) * 100) : 0;
+        return (
+          <span
+            key={i}
+            title={`${msToClock(event.offsetMs)} · ${event.category ?? UNCATEGORIZED}`}
+            className={`absolute top-0 w-1.5 h-3 -ml-[3px] rounded-full ${event.category ? 'bg-red-500' : 'bg-gray-500 dark:bg-gray-400'}`}
+            style={{ left: `${position}%` }}
+          />
+        );
+      })}
+    </div>
+  );
+};
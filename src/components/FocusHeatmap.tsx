@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import { addDays, format } from 'date-fns';
+import { HistoryItem } from '../types/history';
+import { formatTotalDuration } from '../utils/time';
+import { computeFocusByDay, getHeatmapLevel, getPeriodRange } from '../utils/analytics';
+
+interface FocusHeatmapProps {
+  history: HistoryItem[];
+  dayStartHour: number;
+  onSelectDay: (dayStart: number) => void;
+}
+
+const WEEKS = 53;
+
+const LEVEL_CLASSES = [
+  'bg-gray-200 dark:bg-gray-700',
+  'bg-green-200 dark:bg-green-900',
+  'bg-green-400 dark:bg-green-700',
+  'bg-green-600 dark:bg-green-500',
+  'bg-green-800 dark:bg-green-300',
+];
+
+export const FocusHeatmap = ({ history, dayStartHour, onSelectDay }: FocusHeatmapProps) => {
+  const focusByDay = useMemo(() => computeFocusByDay(history, dayStartHour), [history, dayStartHour]);
+
+  // One column per week, Monday on top, ending with the current week
+  const weeks = useMemo(() => {
+    const now = Date.now();
+    const { start: currentWeekStart } = getPeriodRange('week', now, dayStartHour);
+    const firstWeekStart = addDays(currentWeekStart, -7 * (WEEKS - 1));
+    return Array.from({ length: WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, day) => addDays(firstWeekStart, week * 7 + day).getTime())
+        .map(dayStart => (dayStart > now ? null : dayStart))
+    );
+  }, [dayStartHour, history]); // Recomputed as history grows, so a new day shows up
+
+  return (
+    <div className="mb-4 overflow-x-auto">
+      <div className="flex gap-[3px]">
+        {weeks.map((days, week) => (
+          <div key={week} className="flex flex-col gap-[3px]">
+            {days.map((dayStart, day) => {
+              if (dayStart === null) return <span key={day} className="w-2.5 h-2.5" />;
+              const focusMs = focusByDay.get(dayStart) ?? 0;
+              return (
+                <button
+                  key={day}
+                  onClick={() => onSelectDay(dayStart)}
+                  className={`w-2.5 h-2.5 rounded-sm ${LEVEL_CLASSES[getHeatmapLevel(focusMs)]} hover:ring-1 hover:ring-blue-500`}
+                  title={`${format(dayStart, 'EEE d MMM yyyy')}: ${focusMs > 0 ? formatTotalDuration(focusMs) : 'no'} focus`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-1 text-[10px] text-gray-500 dark:text-gray-400">
+        <span>Less</span>
+        {LEVEL_CLASSES.map(levelClass => (
+          <span key={levelClass} className={`w-2.5 h-2.5 rounded-sm ${levelClass}`} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+};
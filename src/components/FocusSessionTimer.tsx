@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback } from 'react';
 
 interface FocusSessionTimerProps {
   minutes: string;
@@ -10,6 +10,7 @@ interface FocusSessionTimerProps {
   onTimerEnd: () => void;
   onPause: () => void;
   onResume: () => void;
+  streakCount: number;
   isCompact?: boolean;
 }
 
@@ -72,6 +73,7 @@ export const FocusSessionTimer = ({
   onTimerEnd, 
   onPause,
   onResume,
+  streakCount,
   isCompact = false,
 }: FocusSessionTimerProps) => {
   const [startButtonText, setStartButtonText] = useState(MOTIVATIONAL_STARTS[0]);
@@ -79,60 +81,6 @@ export const FocusSessionTimer = ({
   const [isButtonAnimating, setIsButtonAnimating] = useState(false);
   const [pauseMessage, setPauseMessage] = useState(PAUSE_MESSAGES[0]);
   const [stopMessage, setStopMessage] = useState(STOP_MESSAGES[0]);
-  const [streakCount, setStreakCount] = useState(0);
-  const [streakRingProgress, setStreakRingProgress] = useState(0);
-
-  useEffect(() => {
-    const storedStreakCount = localStorage.getItem('totalStreakSessions');
-    if (storedStreakCount) {
-      const count = parseInt(storedStreakCount, 10);
-      setStreakCount(count);
-      setStreakRingProgress(Math.min(count * 10, 360));
-    }
-  }, []);
-
-  useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'totalStreakSessions' && e.newValue) {
-        const count = parseInt(e.newValue, 10);
-        setStreakCount(count);
-        const newProgress = Math.min(count * 10, 360);
-        setStreakRingProgress(prevProgress => {
-          const step = (newProgress - prevProgress) / 30;
-          let current = prevProgress;
-          const animate = () => {
-            if (Math.abs(newProgress - current) < Math.abs(step)) {
-              setStreakRingProgress(newProgress);
-              return;
-            }
-            current += step;
-            setStreakRingProgress(current);
-            requestAnimationFrame(animate);
-          };
-          requestAnimationFrame(animate);
-          return prevProgress;
-        });
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    
-    const intervalId = setInterval(() => {
-      const storedCount = localStorage.getItem('totalStreakSessions');
-      if (storedCount) {
-        const count = parseInt(storedCount, 10);
-        if (count !== streakCount) {
-          setStreakCount(count);
-          setStreakRingProgress(Math.min(count * 10, 360));
-        }
-      }
-    }, 5000);
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      clearInterval(intervalId);
-    };
-  }, [streakCount]);
 
   const handleStart = () => {
     if (isSessionActive) return;
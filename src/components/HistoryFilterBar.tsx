@@ -0,0 +1,46 @@
+import { HistoryFilter, NO_PROJECT } from '../utils/projects';
+
+interface HistoryFilterBarProps {
+  projects: string[];
+  tags: string[];
+  filter: HistoryFilter;
+  onChange: (filter: HistoryFilter) => void;
+}
+
+const selectClass = 'px-2 py-1 border rounded text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export const HistoryFilterBar = ({ projects, tags, filter, onChange }: HistoryFilterBarProps) => {
+  if (projects.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-gray-600 dark:text-gray-400">
+      <span className="font-medium">🔎 Filter:</span>
+      {projects.length > 0 && (
+        <select
+          value={filter.project ?? ''}
+          onChange={(e) => onChange({ ...filter, project: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">All projects</option>
+          {projects.map(project => <option key={project} value={project}>{project}</option>)}
+          <option value={NO_PROJECT}>{NO_PROJECT}</option>
+        </select>
+      )}
+      {tags.length > 0 && (
+        <select
+          value={filter.tag ?? ''}
+          onChange={(e) => onChange({ ...filter, tag: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+      )}
+      {(filter.project !== undefined || filter.tag !== undefined) && (
+        <button onClick={() => onChange({})} className="text-blue-500 hover:text-blue-600 dark:text-blue-400">
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
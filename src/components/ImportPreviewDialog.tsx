@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { HistoryItem } from '../types/history';
+import { ParsedBackup, ImportMode, diffHistory } from '../lib/storage';
+
+interface ImportPreviewDialogProps {
+  parsed: ParsedBackup | null;
+  currentHistory: HistoryItem[];
+  onConfirm: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+export const ImportPreviewDialog = ({ parsed, currentHistory, onConfirm, onCancel }: ImportPreviewDialogProps) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  if (!parsed) return null;
+
+  const { bundle, skippedRecords } = parsed;
+  const diff = diffHistory(currentHistory, bundle.history, mode);
+  const settingsCount = Object.keys(bundle.settings).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
+        <h2 className="text-xl font-semibold mb-1">📥 Import backup</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {bundle.exportedAt ? `Exported ${format(bundle.exportedAt, 'PPpp')}` : 'Export date unknown'}
+        </p>
+
+        <div className="flex gap-4 mb-4 text-sm">
+          {(['merge', 'replace'] as ImportMode[]).map(option => (
+            <label key={option} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === option}
+                onChange={() => setMode(option)}
+              />
+              <span>{option === 'merge' ? 'Merge with my data' : 'Replace my data'}</span>
+            </label>
+          ))}
+        </div>
+
+        <ul className="space-y-1 text-sm mb-4">
+          <li>➕ <span className="font-medium">{diff.added}</span> new history entries</li>
+          <li>✏️ <span className="font-medium">{diff.updated}</span> entries updated from the backup</li>
+          <li>＝ <span className="font-medium">{diff.unchanged}</span> entries already identical</li>
+          {mode === 'replace' && (
+            <li className="text-red-600 dark:text-red-400">🗑️ <span className="font-medium">{diff.removed}</span> current entries moved to the trash</li>
+          )}
+          <li>✅ {bundle.todos.length} todos, notepad {bundle.notepad ? 'included' : 'empty'}</li>
+          <li>⚙️ {mode === 'replace' ? `${settingsCount} settings restored` : 'Current settings kept'}</li>
+          {skippedRecords > 0 && (
+            <li className="text-amber-600 dark:text-amber-400">⚠️ {skippedRecords} invalid entries will be skipped</li>
+          )}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mode)}
+            className={`px-4 py-2 rounded-md text-sm text-white transition-colors ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-500 hover:bg-blue-600'
+            }`}
+          >
+            {mode === 'replace' ? 'Replace & reload' : 'Merge & reload'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { OneEuroConfig } from '../utils/oneEuroFilter';
+
+interface LandmarkFilterSettingsProps {
+  config: OneEuroConfig;
+  onChange: (changes: Partial<OneEuroConfig>) => void;
+}
+
+const NUMBER_FIELDS: { key: 'minCutoff' | 'beta' | 'dCutoff'; label: string; step: number; hint: string }[] = [
+  { key: 'minCutoff', label: 'Min cutoff', step: 0.05, hint: 'Lower removes more jitter while you sit still (Hz)' },
+  { key: 'beta', label: 'Beta', step: 1, hint: 'Higher follows fast movement with less lag' },
+  { key: 'dCutoff', label: 'Speed cutoff', step: 0.1, hint: 'Smoothing of the speed estimate (Hz)' },
+];
+
+const inputClass = 'w-14 px-1 py-0.5 border rounded text-center dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export const LandmarkFilterSettings = ({ config, onChange }: LandmarkFilterSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleNumberChange = (key: typeof NUMBER_FIELDS[number]['key'], value: string) => {
+    const num = parseFloat(value);
+    // Cutoffs must stay above zero; beta 0 is a plain low-pass filter
+    if (!isNaN(num) && (num > 0 || (key === 'beta' && num === 0))) {
+      onChange({ [key]: num });
+    }
+  };
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+      <button onClick={() => setIsOpen(prev => !prev)} className="font-medium hover:text-gray-800 dark:hover:text-gray-200">
+        ✨ Jitter filter {isOpen ? '▾' : '▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.enabled}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            <span>Smooth landmarks before judging and drawing them</span>
+          </label>
+          <div className="flex flex-wrap items-center gap-3">
+            {NUMBER_FIELDS.map(({ key, label, step, hint }) => (
+              <label key={key} className="flex items-center gap-1" title={hint}>
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={config[key]}
+                  onChange={(e) => handleNumberChange(key, e.target.value)}
+                  disabled={!config.enabled}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
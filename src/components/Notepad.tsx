@@ -1,16 +1,20 @@
 import { useState, useEffect, useRef } from 'react';
+import { getSetting, saveSetting } from '../lib/storage';
 
 export const Notepad = () => {
   const [note, setNote] = useState('');
   const saveTimeoutRef = useRef<number | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
-  // Load saved note from localStorage
+  // Load saved note from storage
   useEffect(() => {
-    const savedNote = localStorage.getItem('notepad');
-    if (savedNote) {
-      setNote(savedNote);
-    }
+    getSetting('notepad', '')
+      .then(savedNote => {
+        if (typeof savedNote === 'string' && savedNote) {
+          setNote(savedNote);
+        }
+      })
+      .catch(error => console.error('Failed to load note:', error));
   }, []);
   
   // Auto-adjust textarea height based on content
@@ -33,14 +37,14 @@ export const Notepad = () => {
     
     // Set new timeout to save after 5 seconds of inactivity
     saveTimeoutRef.current = window.setTimeout(() => {
-      localStorage.setItem('notepad', newNote);
+      saveSetting('notepad', newNote);
       console.log('Note auto-saved');
     }, 5000);
   };
   
   // Save on blur
   const handleBlur = () => {
-    localStorage.setItem('notepad', note);
+    saveSetting('notepad', note);
     console.log('Note saved on blur');
   };
   
@@ -66,7 +70,7 @@ export const Notepad = () => {
         setNote(newValue);
         
         // Save immediately
-        localStorage.setItem('notepad', newValue);
+        saveSetting('notepad', newValue);
         
         // Set cursor position after the inserted timestamp
         setTimeout(() => {
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+
+interface PauseReasonPickerProps {
+  reasons: string[];
+  selected?: string;
+  onSelect: (reason: string | undefined) => void;
+  onReasonsChange: (reasons: string[]) => void;
+}
+
+export const PauseReasonPicker = ({
+  reasons,
+  selected,
+  onSelect,
+  onReasonsChange
+}: PauseReasonPickerProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [newReason, setNewReason] = useState('');
+
+  const handleAdd = () => {
+    const reason = newReason.trim();
+    if (reason && !reasons.includes(reason)) {
+      onReasonsChange([...reasons, reason]);
+    }
+    setNewReason('');
+  };
+
+  const handleRemove = (reason: string) => {
+    onReasonsChange(reasons.filter(r => r !== reason));
+    if (reason === selected) onSelect(undefined);
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-orange-700 dark:text-orange-300 font-medium">⏸️ Why the pause?</span>
+        <button
+          onClick={() => setIsEditing(prev => !prev)}
+          className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          {isEditing ? 'Done' : 'Edit list'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {reasons.map(reason => (
+          <span key={reason} className="inline-flex items-center">
+            <button
+              onClick={() => onSelect(reason === selected ? undefined : reason)}
+              disabled={isEditing}
+              className={`px-2 py-1 rounded-full text-xs transition-colors ${
+                reason === selected
+                  ? 'bg-orange-500 text-white'
+                  : 'bg-orange-100 text-orange-800 hover:bg-orange-200 dark:bg-orange-900/40 dark:text-orange-200 dark:hover:bg-orange-800/60'
+              }`}
+            >
+              {reason}
+            </button>
+            {isEditing && (
+              <button
+                onClick={() => handleRemove(reason)}
+                className="ml-1 text-xs text-gray-400 hover:text-red-500"
+                title={`Remove "${reason}"`}
+              >
+                ✕
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {isEditing && (
+        <div className="mt-2 flex gap-2">
+          <input
+            type="text"
+            value={newReason}
+            onChange={(e) => setNewReason(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            maxLength={30}
+            placeholder="Add a reason..."
+            className="flex-1 px-2 py-1 border rounded text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <button
+            onClick={handleAdd}
+            className="px-2 py-1 rounded bg-orange-500 text-white text-xs hover:bg-orange-600 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import { PomodoroConfig } from '../utils/pomodoro';
+
+interface PomodoroSettingsProps {
+  config: PomodoroConfig;
+  onChange: (changes: Partial<PomodoroConfig>) => void;
+  disabled?: boolean;
+}
+
+const NUMBER_FIELDS: { key: 'workMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'cycles'; label: string; max: number }[] = [
+  { key: 'workMinutes', label: 'Work', max: 180 },
+  { key: 'shortBreakMinutes', label: 'Short', max: 60 },
+  { key: 'longBreakMinutes', label: 'Long', max: 120 },
+  { key: 'cycles', label: 'Blocks', max: 12 },
+];
+
+export const PomodoroSettings = ({ config, onChange, disabled = false }: PomodoroSettingsProps) => {
+  const handleNumberChange = (key: typeof NUMBER_FIELDS[number]['key'], value: string) => {
+    const num = parseInt(value);
+    if (!isNaN(num) && num > 0) {
+      onChange({ [key]: num });
+    }
+  };
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+      <label className="inline-flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          disabled={disabled}
+          className="rounded border-gray-300 dark:border-gray-600"
+        />
+        <span className="font-medium">🍅 Pomodoro cycle</span>
+      </label>
+
+      {config.enabled && (
+        <div className="mt-2 flex flex-wrap items-center gap-3">
+          {NUMBER_FIELDS.map(({ key, label, max }) => (
+            <label key={key} className="flex items-center gap-1">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={1}
+                max={max}
+                value={config[key]}
+                onChange={(e) => handleNumberChange(key, e.target.value)}
+                disabled={disabled}
+                className="w-14 px-1 py-0.5 border rounded text-center dark:bg-gray-700 dark:border-gray-600 dark:text-white disabled:opacity-50"
+              />
+              {key !== 'cycles' && <span>min</span>}
+            </label>
+          ))}
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.autoStartWork}
+              onChange={(e) => onChange({ autoStartWork: e.target.checked })}
+              disabled={disabled}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            <span>Auto-start next block</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
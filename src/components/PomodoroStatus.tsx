@@ -0,0 +1,73 @@
+import { msToClock } from '../utils/time';
+import { PomodoroConfig, PomodoroCycle } from '../utils/pomodoro';
+
+interface PomodoroStatusProps {
+  cycle: PomodoroCycle | null;
+  config: PomodoroConfig;
+  breakRemainingMs: number;
+  isSessionActive: boolean;
+  onSkipBreak: () => void;
+  onEndCycle: () => void;
+}
+
+export const PomodoroStatus = ({
+  cycle,
+  config,
+  breakRemainingMs,
+  isSessionActive,
+  onSkipBreak,
+  onEndCycle
+}: PomodoroStatusProps) => {
+  if (!cycle) return null;
+
+  const isBreak = cycle.phase !== 'work';
+  const label = cycle.phase === 'longBreak'
+    ? '🌴 Long break'
+    : cycle.phase === 'shortBreak'
+      ? '☕ Short break'
+      : isSessionActive
+        ? `🍅 Block ${cycle.block} of ${config.cycles}`
+        : `🍅 Block ${cycle.block} of ${config.cycles} ready`;
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-rose-50 dark:bg-rose-900/30 flex items-center justify-between gap-3 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="font-medium text-rose-800 dark:text-rose-200">{label}</span>
+        {isBreak && (
+          <span className="text-lg font-bold text-rose-900 dark:text-rose-100">{msToClock(breakRemainingMs)}</span>
+        )}
+        {/* One dot per work block; filled once the block is done */}
+        <span className="flex gap-1" title={`Block ${cycle.block} of ${config.cycles}`}>
+          {Array.from({ length: config.cycles }, (_, i) => {
+            const done = i + 1 < cycle.block || (i + 1 === cycle.block && isBreak);
+            return (
+              <span
+                key={i}
+                className={`w-2 h-2 rounded-full ${done ? 'bg-rose-500' : 'bg-rose-200 dark:bg-rose-800'}`}
+              />
+            );
+          })}
+        </span>
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        {isBreak && (
+          <button
+            onClick={onSkipBreak}
+            className="px-2 py-1 rounded bg-rose-500 text-white hover:bg-rose-600 transition-colors"
+          >
+            Skip break
+          </button>
+        )}
+        {!isSessionActive && (
+          <button
+            onClick={onEndCycle}
+            className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            End set
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,31 @@
 import { useEffect, useRef } from 'react';
-import { drawConnectors, drawLandmarks } from '@mediapipe/drawing_utils';
-import { POSE_CONNECTIONS, POSE_LANDMARKS } from '@mediapipe/pose';
+import { NormalizedLandmark, PoseLandmarker } from '@mediapipe/tasks-vision';
+import { POSE_LANDMARKS } from '../utils/postureDetect';
 
 interface PoseLandmarksRendererProps {
-  landmarks?: any;
+  landmarks?: NormalizedLandmark[];
   width: number;
   height: number;
-  neckAngle?: number;
-  torsoAngle?: number;
   isGoodPosture?: boolean;
 }
 
-export const PoseLandmarksRenderer = ({ 
-  landmarks, 
-  width, 
+// Landmarks the posture checks rely on, drawn larger and in their own colour
+const HIGHLIGHTS: { indices: number[]; color: string; radius: number }[] = [
+  { indices: [POSE_LANDMARKS.NOSE], color: '#FFFF00', radius: 5 },
+  { indices: [POSE_LANDMARKS.LEFT_EAR, POSE_LANDMARKS.RIGHT_EAR], color: '#00FFFF', radius: 4 },
+  { indices: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER], color: '#FFA500', radius: 4 },
+];
+
+const drawPoint = (ctx: CanvasRenderingContext2D, landmark: NormalizedLandmark, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.arc(landmark.x * width, landmark.y * height, radius, 0, 2 * Math.PI);
+  ctx.fill();
+};
+
+export const PoseLandmarksRenderer = ({
+  landmarks,
+  width,
   height,
-  neckAngle = 0,
-  torsoAngle = 0,
   isGoodPosture = true
 }: PoseLandmarksRendererProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -36,54 +45,29 @@ export const PoseLandmarksRenderer = ({
     // Clear the canvas
     ctx.clearRect(0, 0, width, height);
 
-    // Draw the pose landmarks on the canvas
-    drawConnectors(ctx, landmarks, POSE_CONNECTIONS, {
-      color: isGoodPosture ? '#00FF00' : '#FF0000',
-      lineWidth: 2
+    // Skeleton, coloured by the posture verdict
+    ctx.strokeStyle = isGoodPosture ? '#00FF00' : '#FF0000';
+    ctx.lineWidth = 2;
+    PoseLandmarker.POSE_CONNECTIONS.forEach(({ start, end }) => {
+      const from = landmarks[start];
+      const to = landmarks[end];
+      if (!from || !to) return;
+      ctx.beginPath();
+      ctx.moveTo(from.x * width, from.y * height);
+      ctx.lineTo(to.x * width, to.y * height);
+      ctx.stroke();
     });
 
-    // Highlight key landmarks
-    if (landmarks[POSE_LANDMARKS.NOSE]) {
-      drawLandmarks(ctx, [landmarks[POSE_LANDMARKS.NOSE]], {
-        color: '#FFFF00',
-        lineWidth: 2,
-        radius: 5
+    // All landmarks, then the highlighted ones on top
+    ctx.fillStyle = '#FFFFFF';
+    landmarks.forEach(landmark => drawPoint(ctx, landmark, width, height, 2));
+    HIGHLIGHTS.forEach(({ indices, color, radius }) => {
+      ctx.fillStyle = color;
+      indices.forEach(index => {
+        if (landmarks[index]) drawPoint(ctx, landmarks[index], width, height, radius);
       });
-    }
-
-    // Highlight ears
-    drawLandmarks(ctx, [
-      landmarks[POSE_LANDMARKS.LEFT_EAR],
-      landmarks[POSE_LANDMARKS.RIGHT_EAR]
-    ], {
-      color: '#00FFFF',
-      lineWidth: 2,
-      radius: 4
-    });
-
-    // Highlight shoulders
-    drawLandmarks(ctx, [
-      landmarks[POSE_LANDMARKS.LEFT_SHOULDER],
-      landmarks[POSE_LANDMARKS.RIGHT_SHOULDER]
-    ], {
-      color: '#FFA500',
-      lineWidth: 2,
-      radius: 4
-    });
-
-    // Draw posture angle information
-    ctx.font = '14px Arial';
-    ctx.fillStyle = isGoodPosture ? '#00FF00' : '#FF0000';
-    ctx.fillText(`Neck: ${neckAngle.toFixed(1)}°`, 10, 20);
-    ctx.fillText(`Torso: ${torsoAngle.toFixed(1)}°`, 10, 40);
-
-    // Draw other landmarks
-    drawLandmarks(ctx, landmarks, {
-      color: '#FFFFFF',
-      lineWidth: 1,
-      radius: 2
     });
-  }, [landmarks, width, height, neckAngle, torsoAngle, isGoodPosture]);
+  }, [landmarks, width, height, isGoodPosture]);
 
   return (
     <canvas
@@ -93,4 +77,4 @@ export const PoseLandmarksRenderer = ({
       className="absolute inset-0 z-10 pointer-events-none"
     />
   );
-}; 
\ No newline at end of file
+};
@@ -5,16 +5,16 @@ interface PoseOverlayProps {
   width: number;
   height: number;
   good: boolean;
-  baselineEye: number | null;
-  currentEye: number | null;
+  baselineY: number | null; // Normalized head height at calibration
+  currentY: number | null;
 }
 
 const PoseOverlayComponent = ({ 
   width, 
   height, 
   good, 
-  baselineEye, 
-  currentEye 
+  baselineY, 
+  currentY 
 }: PoseOverlayProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -34,21 +34,21 @@ const PoseOverlayComponent = ({
     ctx.clearRect(0, 0, width, height);
 
     // Draw the guideline overlay
-    if (baselineEye !== null) {
-      const basePx = baselineEye * height;
+    if (baselineY !== null) {
+      const basePx = baselineY * height;
       
       // Draw baseline guideline
       ctx.fillStyle = good ? '#00ff66aa' : '#ff4444aa'; // semi-transparent
       ctx.fillRect(0, basePx - 2, width, 4); // baseline
       
-      // Draw current eye line if available
-      if (currentEye !== null) {
-        const curPx = currentEye * height;
-        // Draw current eye line thinner
+      // Draw current head line if available
+      if (currentY !== null) {
+        const curPx = currentY * height;
+        // Draw current head line thinner
         ctx.fillRect(0, curPx - 1, width, 2);
       }
     }
-  }, [width, height, good, baselineEye, currentEye]);
+  }, [width, height, good, baselineY, currentY]);
 
   return (
     <canvas
@@ -0,0 +1,38 @@
+import { usePosture } from '@/context/PostureContext';
+import { PostureAngles } from '@/utils/poseMath';
+
+const METRICS: { key: keyof PostureAngles; label: string }[] = [
+  { key: 'neckPitch', label: 'Neck' },
+  { key: 'headRoll', label: 'Roll' },
+  { key: 'shoulderSlope', label: 'Shoulders' },
+  { key: 'torsoInclination', label: 'Torso' },
+];
+
+const formatDegrees = (degrees: number) => `${Math.round(degrees)}°`;
+const formatDelta = (degrees: number) => `${degrees >= 0 ? '+' : '−'}${formatDegrees(Math.abs(degrees))}`;
+
+// Live angle metrics over the camera feed, with the change since calibration
+export const PostureAnglesReadout = () => {
+  const { postureAngles, angleDeltas } = usePosture();
+  if (!postureAngles) return null;
+
+  return (
+    <div className="absolute top-2 left-2 p-1 px-2 rounded bg-black/60 text-white text-[10px] font-mono z-10 space-y-0.5">
+      {METRICS.map(({ key, label }) => {
+        const value = postureAngles[key];
+        const delta = angleDeltas?.[key];
+        return (
+          <div key={key} className="flex justify-between gap-2">
+            <span>{label}</span>
+            <span>
+              {value === null ? '—' : formatDegrees(value)}
+              {delta !== undefined && delta !== null && (
+                <span className={Math.abs(delta) >= 10 ? 'text-red-300' : 'text-gray-300'}> ({formatDelta(delta)})</span>
+              )}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
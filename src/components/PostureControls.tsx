@@ -1,5 +1,7 @@
 import React from 'react';
 import { usePosture } from '@/context/PostureContext';
+import { PostureSmoothingSettings } from './PostureSmoothingSettings';
+import { LandmarkFilterSettings } from './LandmarkFilterSettings';
 
 const PostureControls: React.FC = () => {
   const {
@@ -11,7 +13,13 @@ const PostureControls: React.FC = () => {
     isLoadingDetector, 
     cameraError,
     sensitivityPercentage,
-    setSensitivityPercentage
+    setSensitivityPercentage,
+    leanSensitivityPercentage,
+    setLeanSensitivityPercentage,
+    postureSmoothing,
+    updatePostureSmoothing,
+    landmarkFilter,
+    updateLandmarkFilter
   } = usePosture();
 
   const handleToggleDetection = () => {
@@ -61,6 +69,22 @@ const PostureControls: React.FC = () => {
           className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500 dark:accent-blue-400"
           disabled={isCalibrating || isLoadingDetector}
         />
+        <label htmlFor="lean-sensitivity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-3 mb-1 text-center">
+          Lean sensitivity ({leanSensitivityPercentage}%)
+        </label>
+        <input
+          type="range"
+          id="lean-sensitivity"
+          min="5"
+          max="30"
+          step="1"
+          value={leanSensitivityPercentage}
+          onChange={(e) => setLeanSensitivityPercentage(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500 dark:accent-blue-400"
+          disabled={isCalibrating || isLoadingDetector}
+        />
+        <PostureSmoothingSettings config={postureSmoothing} onChange={updatePostureSmoothing} disabled={isCalibrating} />
+        <LandmarkFilterSettings config={landmarkFilter} onChange={updateLandmarkFilter} />
       </div>
     </div>
   );
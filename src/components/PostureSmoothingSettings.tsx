@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { PostureSmoothingConfig } from '../utils/postureStabilizer';
+
+interface PostureSmoothingSettingsProps {
+  config: PostureSmoothingConfig;
+  onChange: (changes: Partial<PostureSmoothingConfig>) => void;
+  disabled?: boolean;
+}
+
+// Times are edited in seconds, ratios as multiples of the sensitivity threshold
+const FIELDS: { key: keyof PostureSmoothingConfig; label: string; unit: string; scale: number; step: number; hint: string }[] = [
+  { key: 'windowMs', label: 'Window', unit: 's', scale: 1000, step: 0.5, hint: 'Deviation is averaged over this much time' },
+  { key: 'minDwellMs', label: 'Hold', unit: 's', scale: 1000, step: 0.5, hint: 'How long a change has to last before it counts' },
+  { key: 'enterBadRatio', label: 'Bad above', unit: '×', scale: 1, step: 0.1, hint: 'Averaged deviation that turns posture bad' },
+  { key: 'exitBadRatio', label: 'Good below', unit: '×', scale: 1, step: 0.1, hint: 'Averaged deviation bad posture has to drop under to recover' },
+];
+
+const inputClass = 'w-14 px-1 py-0.5 border rounded text-center dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export const PostureSmoothingSettings = ({ config, onChange, disabled = false }: PostureSmoothingSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleChange = (key: keyof PostureSmoothingConfig, scale: number, value: string) => {
+    const num = parseFloat(value);
+    if (isNaN(num) || num < 0) return;
+    const scaled = Math.round(num * scale * 100) / 100;
+    // Keep the exit threshold at or below the enter one so the state can't oscillate
+    if (key === 'enterBadRatio') {
+      onChange({ enterBadRatio: scaled, exitBadRatio: Math.min(config.exitBadRatio, scaled) });
+    } else if (key === 'exitBadRatio') {
+      onChange({ exitBadRatio: Math.min(scaled, config.enterBadRatio) });
+    } else {
+      onChange({ [key]: scaled });
+    }
+  };
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+      <button onClick={() => setIsOpen(prev => !prev)} className="font-medium hover:text-gray-800 dark:hover:text-gray-200">
+        〰️ Smoothing {isOpen ? '▾' : '▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 flex flex-wrap items-center gap-3">
+          {FIELDS.map(({ key, label, unit, scale, step, hint }) => (
+            <label key={key} className="flex items-center gap-1" title={hint}>
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                step={step}
+                value={config[key] / scale}
+                onChange={(e) => handleChange(key, scale, e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              />
+              <span>{unit}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { msToClock } from '../utils/time';
+import { PostureTimelineState, SessionData } from '../types/history';
+import { getSessionEnd } from '../utils/analytics';
+import { getPostureSegments, focusToWallOffset } from '../utils/postureTimeline';
+import { UNCATEGORIZED } from '../utils/distractions';
+
+interface PostureTimelineStripProps {
+  session: SessionData;
+}
+
+const STATE_STYLES: Record<PostureTimelineState, { label: string; className: string }> = {
+  good: { label: 'Good', className: 'bg-green-500' },
+  bad: { label: 'Bad', className: 'bg-red-500' },
+  absent: { label: 'Away', className: 'bg-gray-400 dark:bg-gray-500' },
+  paused: { label: 'Paused', className: 'bg-amber-400' },
+};
+
+// Session laid out in wall-clock time, coloured by posture, with distractions and nudges marked above
+export const PostureTimelineStrip = ({ session }: PostureTimelineStripProps) => {
+  const timeline = session.postureTimeline ?? [];
+  if (timeline.length === 0) return null;
+
+  const totalMs = Math.max(getSessionEnd(session) - session.timestamp, timeline[timeline.length - 1][0]);
+  const toPercent = (offsetMs: number) => (totalMs > 0 ? Math.min(100, (offsetMs / totalMs) * 100) : 0);
+  const segments = getPostureSegments(timeline, totalMs);
+
+  return (
+    <div className="space-y-1" aria-label="Posture timeline">
+      <div className="relative h-2">
+        {(session.distractionLog ?? []).map((event, i) => {
+          const offsetMs = focusToWallOffset(session, event.offsetMs);
+          return (
+            <span
+              key={`distraction-${i}`}
+              title={`${msToClock(offsetMs)} · ❌ ${event.category ?? UNCATEGORIZED}`}
+              className="absolute top-0 w-1 h-2 -ml-0.5 rounded-full bg-gray-800 dark:bg-white"
+              style={{ left: `${toPercent(offsetMs)}%` }}
+            />
+          );
+        })}
+        {(session.postureNudges ?? []).map((offsetMs, i) => (
+          <span
+            key={`nudge-${i}`}
+            title={`${msToClock(offsetMs)} · 🔔 Posture nudge`}
+            className="absolute top-0 w-1 h-2 -ml-0.5 rounded-full bg-blue-500"
+            style={{ left: `${toPercent(offsetMs)}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700">
+        {segments.map((segment, i) => (
+          <span
+            key={i}
+            title={`${msToClock(segment.startMs)}–${msToClock(segment.endMs)} · ${STATE_STYLES[segment.state].label}`}
+            className={STATE_STYLES[segment.state].className}
+            style={{ width: `${toPercent(segment.endMs - segment.startMs)}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 text-[10px] text-gray-500 dark:text-gray-400">
+        {Object.values(STATE_STYLES).map(({ label, className }) => (
+          <span key={label} className="flex items-center gap-1">
+            <span className={`inline-block w-2 h-2 rounded-full ${className}`} />
+            {label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-1 h-2 rounded-full bg-gray-800 dark:bg-white" />
+          Distraction
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-1 h-2 rounded-full bg-blue-500" />
+          Nudge
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useRef, useEffect } from "react";
 import { NormalizedLandmark } from "@mediapipe/tasks-vision";
 import { usePosture } from "@/context/PostureContext";
-import { POSE_LANDMARKS } from "@/utils/postureDetect";
+import { POSE_LANDMARKS, BaselineMetrics } from "@/utils/postureDetect";
 import PostureControls from './PostureControls';
+import { PostureAnglesReadout } from './PostureAnglesReadout';
 
 // Connection lines commented out as per request
 /*
@@ -11,13 +12,6 @@ const POSE_CONNECTIONS: [number, number][] = [
 ];
 */
 
-// Define BaselineMetrics interface (or import from context if exported)
-interface BaselineMetrics {
-  noseY: number;
-  noseX: number; 
-  earShoulderDistX: number; 
-}
-
 export interface PostureViewProps {
   isSessionActive?: boolean;
   onPostureChange?: (isGood: boolean) => void;
@@ -207,6 +201,8 @@ export const PostureView: React.FC<PostureViewProps> = ({ isSessionActive, onPos
           />
         )}
         
+        {!isLoadingDetector && !cameraError && <PostureAnglesReadout />}
+
         { !isLoadingDetector && !cameraError && detectedLandmarks && detectedLandmarks.length > 0 && (
           <div className="absolute top-2 right-2 p-1 px-2 rounded bg-black/60 text-white text-xs font-medium z-10">
             {isCalibrating && countdown !== null ? 
@@ -0,0 +1,43 @@
+import { HistoryItem } from '../types/history';
+import { formatTotalDuration } from '../utils/time';
+import { computeProjectStats } from '../utils/analytics';
+import { NO_PROJECT } from '../utils/projects';
+
+interface ProjectStatsTableProps {
+  history: HistoryItem[];
+}
+
+export const ProjectStatsTable = ({ history }: ProjectStatsTableProps) => {
+  const projects = computeProjectStats(history);
+
+  // Nothing to compare until at least one session has a project
+  if (!projects.some(stats => stats.project !== NO_PROJECT)) return null;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg mb-4">
+      <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">📁 By project</h3>
+      <table className="w-full text-xs text-gray-700 dark:text-gray-300">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="font-medium pb-1">Project</th>
+            <th className="font-medium pb-1 text-right">Focus</th>
+            <th className="font-medium pb-1 text-right">Sessions</th>
+            <th className="font-medium pb-1 text-right">Distractions/h</th>
+            <th className="font-medium pb-1 text-right">Posture</th>
+          </tr>
+        </thead>
+        <tbody>
+          {projects.map(stats => (
+            <tr key={stats.project} className="border-t border-gray-200 dark:border-gray-600">
+              <td className="py-1 truncate max-w-[160px]">{stats.project}</td>
+              <td className="py-1 text-right">{formatTotalDuration(stats.focusMs)}</td>
+              <td className="py-1 text-right">{stats.sessions}</td>
+              <td className="py-1 text-right">{stats.distractionsPerHour.toFixed(1)}</td>
+              <td className="py-1 text-right">{stats.averagePosture !== null ? `${stats.averagePosture}%` : 'N/A'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { normalizeTag } from '../utils/projects';
+
+interface ProjectTagPickerProps {
+  project: string;
+  tags: string[];
+  knownProjects: string[];
+  knownTags: string[];
+  onProjectChange: (project: string) => void;
+  onTagsChange: (tags: string[]) => void;
+}
+
+// Suggested tags shown at once, most recently used first
+const MAX_TAG_SUGGESTIONS = 6;
+
+const inputClass = 'px-2 py-1 border rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export const ProjectTagPicker = ({
+  project,
+  tags,
+  knownProjects,
+  knownTags,
+  onProjectChange,
+  onTagsChange
+}: ProjectTagPickerProps) => {
+  const [tagInput, setTagInput] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onTagsChange([...tags, tag]);
+    }
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && tagInput === '' && tags.length > 0) {
+      onTagsChange(tags.slice(0, -1));
+    }
+  };
+
+  const suggestions = knownTags.filter(tag => !tags.includes(tag)).slice(0, MAX_TAG_SUGGESTIONS);
+
+  return (
+    <div className="mb-2 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          list="known-projects"
+          value={project}
+          onChange={(e) => onProjectChange(e.target.value)}
+          placeholder="📁 Project"
+          maxLength={40}
+          className={`${inputClass} w-36`}
+        />
+        <datalist id="known-projects">
+          {knownProjects.map(name => <option key={name} value={name} />)}
+        </datalist>
+
+        {tags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => onTagsChange(tags.filter(t => t !== tag))}
+            className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200 hover:line-through"
+            title="Remove tag"
+          >
+            #{tag}
+          </button>
+        ))}
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={() => tagInput && addTag(tagInput)}
+          placeholder="#tag"
+          maxLength={24}
+          className={`${inputClass} w-20`}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 text-xs">
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              onClick={() => addTag(tag)}
+              className="px-2 py-0.5 rounded-full text-gray-500 bg-gray-100 hover:bg-gray-200 dark:text-gray-400 dark:bg-gray-700 dark:hover:bg-gray-600"
+            >
+              +#{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
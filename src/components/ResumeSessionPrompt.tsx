@@ -0,0 +1,71 @@
+import { msToClock } from '../utils/time';
+import { isInfiniteDuration } from '../utils/timerClock';
+import {
+  OngoingSession,
+  getCheckpointElapsedMs,
+  getResumeRemainingMs,
+} from '../utils/ongoingSession';
+
+interface ResumeSessionPromptProps {
+  session: OngoingSession | null;
+  onResume: () => void;
+  onLogPartial: () => void;
+}
+
+export const ResumeSessionPrompt = ({ session, onResume, onLogPartial }: ResumeSessionPromptProps) => {
+  if (!session) return null;
+
+  const isInfinite = isInfiniteDuration(session.clock.durationMs);
+  const elapsedMs = getCheckpointElapsedMs(session);
+  const remainingMs = getResumeRemainingMs(session);
+  // A timed session that had already run out at the last checkpoint can only be logged
+  const canResume = isInfinite || remainingMs > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
+        <h2 className="text-xl font-semibold mb-4 flex items-center">
+          <span className="mr-2">⏸️</span> Unfinished Session
+        </h2>
+
+        <div className="space-y-2 text-sm mb-6">
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">Focus Goal: </span>
+            <span className="font-medium">{session.goal || '[Goal not found]'}</span>
+          </div>
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">Focused so far: </span>
+            <span className="font-medium">{msToClock(elapsedMs)}</span>
+          </div>
+          {!isInfinite && (
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Time remaining: </span>
+              <span className="font-medium">{canResume ? msToClock(remainingMs) : 'Time is up'}</span>
+            </div>
+          )}
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">Distractions: </span>
+            <span className="font-medium">{session.distractionCount}</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onLogPartial}
+            className="px-4 py-2 rounded-md text-sm bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Log as partial
+          </button>
+          {canResume && (
+            <button
+              onClick={onResume}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600 transition-colors"
+            >
+              Resume
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
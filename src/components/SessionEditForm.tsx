@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { SessionData, Difficulty } from '../types/history';
+import { SessionEdits, toEditMinutes, resolveEditedDuration } from '../utils/historyEdits';
+
+interface SessionEditFormProps {
+  session: SessionData;
+  onSave: (edits: SessionEdits) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'px-2 py-1 border rounded text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export const SessionEditForm = ({ session, onSave, onCancel }: SessionEditFormProps) => {
+  const [goal, setGoal] = useState(session.goal);
+  const [minutes, setMinutes] = useState(String(toEditMinutes(session.duration)));
+  const [difficulty, setDifficulty] = useState<Difficulty>(session.difficulty ?? 'medium');
+  const [comment, setComment] = useState(session.comment ?? '');
+  const [distractions, setDistractions] = useState(String(session.distractions));
+
+  const parsedMinutes = parseInt(minutes);
+  const parsedDistractions = parseInt(distractions);
+  const isValid = goal.trim() !== '' &&
+    !isNaN(parsedMinutes) && parsedMinutes >= 0 &&
+    !isNaN(parsedDistractions) && parsedDistractions >= 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave({
+      goal: goal.trim(),
+      duration: resolveEditedDuration(session.duration, parsedMinutes),
+      difficulty,
+      comment: comment.trim(),
+      distractions: parsedDistractions,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg p-3 text-sm bg-blue-50 dark:bg-blue-900/30 space-y-2">
+      <div className="flex gap-2">
+        <input value={goal} onChange={(e) => setGoal(e.target.value)} placeholder="Goal" className={`${inputClass} flex-1`} />
+        <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)} className={inputClass}>
+          <option value="easy">🟢 Easy</option>
+          <option value="medium">🟡 Medium</option>
+          <option value="hard">🔴 Hard</option>
+        </select>
+      </div>
+      <div className="flex gap-2 items-center text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex items-center gap-1">
+          ⏱️ <input type="number" min={0} value={minutes} onChange={(e) => setMinutes(e.target.value)} className={`${inputClass} w-16`} /> min
+        </label>
+        <label className="flex items-center gap-1">
+          ❌ <input type="number" min={0} value={distractions} onChange={(e) => setDistractions(e.target.value)} className={`${inputClass} w-14`} />
+        </label>
+        <input
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={40}
+          placeholder="Comment"
+          className={`${inputClass} flex-1`}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1 rounded text-xs bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600">
+          Cancel
+        </button>
+        <button type="submit" disabled={!isValid} className="px-3 py-1 rounded text-xs bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,129 @@
+import { msToClock } from '../utils/time';
+import { SessionData } from '../types/history';
+import { getTotalPausedMs, formatPauseReasons } from '../utils/pauses';
+import { countByCategory } from '../utils/distractions';
+import { evaluateStreakSession, StreakRules } from '../utils/streak';
+import { getTotalAwayMs } from '../utils/autoDistractions';
+
+interface SessionEntryProps {
+  session: SessionData;
+  streakRules: StreakRules;
+  onEdit: () => void;
+  onDelete: () => void;
+  onMergeWithOlder?: () => void; // Absent when there is no older session to merge into
+  onToggleDetails?: () => void; // Absent when the session has no posture timeline
+  isExpanded?: boolean;
+}
+
+const actionClass = 'text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200';
+
+export const SessionEntry = ({ session, streakRules, onEdit, onDelete, onMergeWithOlder, onToggleDetails, isExpanded = false }: SessionEntryProps) => {
+  // Same rules the streak counter uses
+  const streak = evaluateStreakSession(session, streakRules);
+  const isStreak = streak.qualifies;
+  const streakFailures = streak.checks.filter(check => !check.passed).map(check => check.detail).join(', ');
+
+  // Difficulty badge (🟢/🟡/🔴)
+  const difficultyBadge = {
+    easy: '🟢',
+    medium: '🟡',
+    hard: '🔴'
+  }[session.difficulty || 'medium'];
+
+  const pauses = session.pauses ?? [];
+  const autoDistractions = session.autoDistractions ?? [];
+  const pauseReasons = formatPauseReasons(pauses);
+  const distractionBreakdown = countByCategory(session.distractionLog ?? [])
+    .map(({ category, count }) => `${category} ×${count}`)
+    .join(', ');
+
+  return (
+    <div 
+      title={streakFailures ? `Not a streak session: ${streakFailures}` : undefined}
+      className={`group rounded-lg p-3 text-sm flex items-center justify-between ${
+        isStreak 
+          ? 'bg-green-100 dark:bg-green-900/30' 
+          : 'bg-gray-200 dark:bg-gray-700/80'
+      }`}
+    >
+      <div className="flex items-center space-x-2 flex-1 overflow-hidden">
+        {/* Goal and difficulty badge */}
+        <span title={
+          session.difficulty === 'easy' ? 'Brain-Dead Task' :
+          session.difficulty === 'medium' ? 'High School Math' :
+          'Deep Thinking'
+        } className="flex-shrink-0">
+          {difficultyBadge}
+        </span>
+        <span title="Goal" className="truncate text-gray-800 dark:text-gray-200 font-medium flex-1 flex items-center">
+          {session.goal}
+          {session.project && (
+            <span title="Project" className="ml-2 px-1.5 rounded text-[10px] bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300 flex-shrink-0">
+              {session.project}
+            </span>
+          )}
+          {session.tags?.map(tag => (
+            <span key={tag} className="ml-1 text-[10px] text-blue-600 dark:text-blue-400 flex-shrink-0">#{tag}</span>
+          ))}
+          {session.partial && (
+            <span title="Recovered after the tab was closed" className="ml-2 text-[10px] uppercase tracking-wide text-amber-600 dark:text-amber-400 flex-shrink-0">
+              partial
+            </span>
+          )}
+          {session.comment && (
+            <span className="ml-2 text-xs italic text-gray-500 dark:text-gray-400 truncate max-w-[160px] inline-block">
+              {session.comment}
+            </span>
+          )}
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-3 flex-shrink-0">
+        <span title="Duration" className="text-gray-600 dark:text-gray-400">
+          ⏱️ {msToClock(session.duration)}
+        </span>
+        {pauses.length > 0 && (
+          <span
+            title={`Paused ${msToClock(getTotalPausedMs(pauses))}${pauseReasons ? ` · ${pauseReasons}` : ''}`}
+            className="text-orange-600 dark:text-orange-400"
+          >
+            ⏸️ {pauses.length}
+          </span>
+        )}
+        <span title="Share of tracked time in good posture" className={`${session.posture !== undefined && session.posture >= 80 ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
+          👤 {session.posture !== undefined ? `${session.posture}%` : 'N/A'}
+        </span>
+        <span 
+          title={distractionBreakdown ? `Distractions: ${distractionBreakdown}` : "Distractions"} 
+          className={`${!isStreak ? 'text-red-600 dark:text-red-400 font-bold' : 'text-green-600 dark:text-green-400'} flex items-center`}
+        >
+          ❌ {session.distractions}
+          {session.distractionLog?.some(event => event.category) && (
+            <span className="ml-1 text-xs inline-block text-gray-500 dark:text-gray-400">
+              📝
+            </span>
+          )}
+        </span>
+        {autoDistractions.length > 0 && (
+          <span
+            title={`Auto-detected: away ${msToClock(getTotalAwayMs(autoDistractions))} in total`}
+            className="text-gray-600 dark:text-gray-400"
+          >
+            🤖 {autoDistractions.length}
+          </span>
+        )}
+        {/* Row actions, shown on hover */}
+        <span className={`${isExpanded ? 'flex' : 'hidden group-hover:flex'} items-center space-x-1`}>
+          {onToggleDetails && (
+            <button onClick={onToggleDetails} className={actionClass} title={isExpanded ? 'Hide posture timeline' : 'Show posture timeline'}>📈</button>
+          )}
+          <button onClick={onEdit} className={actionClass} title="Edit session">✏️</button>
+          {onMergeWithOlder && (
+            <button onClick={onMergeWithOlder} className={actionClass} title="Merge with the previous session">🔗</button>
+          )}
+          <button onClick={onDelete} className={actionClass} title="Delete session">🗑️</button>
+        </span>
+      </div>
+    </div>
+  );
+};
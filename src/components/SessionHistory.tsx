@@ -1,45 +1,42 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { BreakEntry } from './BreakEntry';
-import { msToClock, formatTotalDuration } from '../utils/time';
-
-// Unified history item types
-interface SessionData {
-  type: "session";
-  id: string;
-  timestamp: number;
-  duration: number;
-  goal: string;
-  posture?: number;
-  distractions: number;
-  comment?: string;
-  difficulty?: 'easy' | 'medium' | 'hard';
-  distractionLog?: string;
-}
-
-interface BreakData {
-  type: "break";
-  id: string;
-  start: number;
-  end: number | null;
-  durationMs: number;
-  note: string;
-}
-
-type HistoryItem = SessionData | BreakData;
+import { SessionEntry } from './SessionEntry';
+import { formatTotalDuration } from '../utils/time';
+import { SessionData, HistoryItem } from '../types/history';
+import { countByCategory } from '../utils/distractions';
+import { StreakRules } from '../utils/streak';
+import { SessionEdits, findOlderSession } from '../utils/historyEdits';
+import { SessionEditForm } from './SessionEditForm';
+import { PostureTimelineStrip } from './PostureTimelineStrip';
+import { HistoryFilterBar } from './HistoryFilterBar';
+import { HistoryFilter, filterHistory, getKnownProjects, getKnownTags } from '../utils/projects';
 
 // Update props to use unified history
 interface SessionHistoryProps {
   history: HistoryItem[];
+  streakRules: StreakRules;
   onBreakNoteChange: (breakId: string, note: string) => void;
   onBreakNoteSave: (breakId: string, note: string) => void;
+  onSessionEdit: (sessionId: string, edits: SessionEdits) => void;
+  onItemDelete: (itemId: string) => void;
+  onSessionMerge: (sessionId: string) => void; // Merge with the next older session
 }
 
 export const SessionHistory = ({ 
   history,
+  streakRules,
   onBreakNoteChange,
-  onBreakNoteSave
+  onBreakNoteSave,
+  onSessionEdit,
+  onItemDelete,
+  onSessionMerge
 }: SessionHistoryProps) => { 
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const projects = useMemo(() => getKnownProjects(history), [history]);
+  const tags = useMemo(() => getKnownTags(history), [history]);
   
   // Calculate total focus time from all sessions in history
   const totalFocusTimeMs = useMemo(() => 
@@ -59,6 +56,75 @@ export const SessionHistory = ({
     return sessions.length > 0 ? sessions[0] : null;
   }, [sessionItems]);
 
+  // Distraction totals per category across all sessions
+  const distractionTotals = useMemo(() =>
+    countByCategory(sessionItems.flatMap(session => session.distractionLog ?? [])),
+  [sessionItems]);
+
+  // Consecutive items of the same pomodoro set are rendered as one linked group
+  const historyGroups = useMemo(() => {
+    const groups: { cycleId?: string; items: HistoryItem[] }[] = [];
+    filterHistory(history, filter).forEach(item => {
+      const last = groups[groups.length - 1];
+      if (item.cycleId && last?.cycleId === item.cycleId) {
+        last.items.push(item);
+      } else {
+        groups.push({ cycleId: item.cycleId, items: [item] });
+      }
+    });
+    return groups;
+  }, [history, filter]);
+
+  const renderItem = (item: HistoryItem) => {
+    if (item.type === "break") {
+      return (
+        <BreakEntry
+          key={`break-${item.id}`}
+          breakStartTime={item.start}
+          breakEndTime={item.end}
+          note={item.note}
+          onNoteChange={(note) => onBreakNoteChange(item.id, note)}
+          onNoteSave={(note) => onBreakNoteSave(item.id, note)}
+          isActive={item.end === null}
+          kind={item.kind}
+          onDelete={() => onItemDelete(item.id)}
+        />
+      );
+    }
+    if (item.id === editingId) {
+      return (
+        <SessionEditForm
+          key={`edit-${item.id}`}
+          session={item}
+          onSave={(edits) => {
+            onSessionEdit(item.id, edits);
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      );
+    }
+    const isExpanded = item.id === expandedId;
+    return (
+      <div key={`session-${item.id}`}>
+        <SessionEntry
+          session={item}
+          streakRules={streakRules}
+          onEdit={() => setEditingId(item.id)}
+          onDelete={() => onItemDelete(item.id)}
+          onMergeWithOlder={findOlderSession(history, item.id) ? () => onSessionMerge(item.id) : undefined}
+          onToggleDetails={item.postureTimeline ? () => setExpandedId(isExpanded ? null : item.id) : undefined}
+          isExpanded={isExpanded}
+        />
+        {isExpanded && (
+          <div className="px-3 py-2">
+            <PostureTimelineStrip session={item} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (sessionItems.length === 0) {
     return (
       <div className="text-center text-gray-500 dark:text-gray-400 py-4">
@@ -74,85 +140,36 @@ export const SessionHistory = ({
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Session History</h2>
       </div>
 
-      {/* Render all history items in order - newest first */}
-      <div className="space-y-1">
-        {history.map((item) => {
-          if (item.type === "break") {
-            // Render break item
-            return (
-              <BreakEntry
-                key={`break-${item.id}`}
-                breakStartTime={item.start}
-                breakEndTime={item.end}
-                note={item.note}
-                onNoteChange={(note) => onBreakNoteChange(item.id, note)}
-                onNoteSave={(note) => onBreakNoteSave(item.id, note)}
-                isActive={item.end === null}
-              />
-            );
-          } else {
-            // Render session item
-            const session = item;
-            // Update streak logic to only check for distractions <= 2
-            const isStreak = session.distractions <= 2;
-            
-            // Difficulty badge (🟢/🟡/🔴)
-            const difficultyBadge = {
-              easy: '🟢',
-              medium: '🟡',
-              hard: '🔴'
-            }[session.difficulty || 'medium'];
-            
-            return (
-              <div 
-                key={`session-${session.id}`} 
-                className={`rounded-lg p-3 text-sm flex items-center justify-between ${
-                  isStreak 
-                    ? 'bg-green-100 dark:bg-green-900/30' 
-                    : 'bg-gray-200 dark:bg-gray-700/80'
-                }`}
-              >
-                <div className="flex items-center space-x-2 flex-1 overflow-hidden">
-                  {/* Goal and difficulty badge */}
-                  <span title={
-                    session.difficulty === 'easy' ? 'Brain-Dead Task' :
-                    session.difficulty === 'medium' ? 'High School Math' :
-                    'Deep Thinking'
-                  } className="flex-shrink-0">
-                    {difficultyBadge}
-                  </span>
-                  <span title="Goal" className="truncate text-gray-800 dark:text-gray-200 font-medium flex-1 flex items-center">
-                    {session.goal}
-                    {session.comment && (
-                      <span className="ml-2 text-xs italic text-gray-500 dark:text-gray-400 truncate max-w-[160px] inline-block">
-                        {session.comment}
-                      </span>
-                    )}
-                  </span>
-                </div>
+      {distractionTotals.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3 text-xs text-gray-600 dark:text-gray-400">
+          <span className="font-medium">❌ By category:</span>
+          {distractionTotals.map(({ category, count }) => (
+            <span key={category} className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700">
+              {category} {count}
+            </span>
+          ))}
+        </div>
+      )}
 
-                <div className="flex items-center space-x-3 flex-shrink-0">
-                  <span title="Duration" className="text-gray-600 dark:text-gray-400">
-                    ⏱️ {msToClock(session.duration)}
-                  </span>
-                  <span title="Posture" className={`${session.posture !== undefined && session.posture >= 80 ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
-                    👤 {session.posture !== undefined ? `${session.posture}%` : 'N/A'}
-                  </span>
-                  <span 
-                    title={session.distractionLog ? `Distractions: ${session.distractionLog}` : "Distractions"} 
-                    className={`${session.distractions > 2 ? 'text-red-600 dark:text-red-400 font-bold' : 'text-green-600 dark:text-green-400'} flex items-center`}
-                  >
-                    ❌ {session.distractions}
-                    {session.distractionLog && (
-                      <span className="ml-1 text-xs inline-block text-gray-500 dark:text-gray-400">
-                        📝
-                      </span>
-                    )}
-                  </span>
-                </div>
-              </div>
-            );
+      <HistoryFilterBar projects={projects} tags={tags} filter={filter} onChange={setFilter} />
+
+      {/* Render all history items in order - newest first, pomodoro sets grouped */}
+      <div className="space-y-1">
+        {historyGroups.map((group) => {
+          if (!group.cycleId) {
+            return renderItem(group.items[0]);
           }
+          // Linked pomodoro set
+          const blocks = group.items.filter((item): item is SessionData => item.type === "session");
+          const setFocusMs = blocks.reduce((sum, session) => sum + session.duration, 0);
+          return (
+            <div key={`cycle-${group.cycleId}`} className="border-l-4 border-rose-400 dark:border-rose-600 pl-2 space-y-1">
+              <div className="text-xs text-rose-700 dark:text-rose-300 font-medium pt-1">
+                🍅 Pomodoro set · {blocks.length} {blocks.length === 1 ? 'block' : 'blocks'} · {formatTotalDuration(setFocusMs)} focus
+              </div>
+              {group.items.map(renderItem)}
+            </div>
+          );
         })}
 
         {/* First session indicator */}
@@ -1,84 +1,78 @@
 import { useState, useEffect } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { getRandomQuote } from '../utils/quoteUtils';
+import { SessionData, DistractionEvent } from '../types/history';
+import { getTotalPausedMs, formatPauseReasons } from '../utils/pauses';
+import { countByCategory } from '../utils/distractions';
+import { evaluateStreakSession, StreakRules } from '../utils/streak';
+import { getTotalAwayMs } from '../utils/autoDistractions';
+import { DistractionTimeline } from './DistractionTimeline';
+import { PostureTimelineStrip } from './PostureTimelineStrip';
+import { DistractionListEditor } from './DistractionListEditor';
+import { XpBreakdown } from './XpBreakdown';
+import { computeSessionXp } from '../utils/xp';
 
 interface SessionSummaryProps {
   isVisible: boolean;
-  onClose: () => void;
-  sessionData: {
-    timestamp: number;
-    duration: number;
-    goal: string;
-    posture?: number;
-    distractions: number;
-    comment?: string;
-    distractionLog?: string;
-  } | null;
-  streakCount?: number;
-  onStreakEnded?: () => void;
+  onSave: (session: SessionData) => void;
+  sessionData: SessionData | null;
+  streakCount?: number; // Streak going into this session
+  streakRules: StreakRules;
+  categories: string[];
 }
 
 export const SessionSummaryPanel = ({ 
   isVisible, 
-  onClose, 
+  onSave, 
   sessionData, 
   streakCount = 0, 
-  onStreakEnded 
+  streakRules,
+  categories
 }: SessionSummaryProps) => {
   const [quote, setQuote] = useState('');
   const [comment, setComment] = useState('');
-  const [distractionCount, setDistractionCount] = useState(0);
-  const [streakEnded, setStreakEnded] = useState(false);
+  // Edited copy of the distraction log; the session itself is only updated on save
+  const [distractionLog, setDistractionLog] = useState<DistractionEvent[]>([]);
 
   useEffect(() => {
     if (isVisible && sessionData) {
       setQuote(getRandomQuote());
       setComment(sessionData.comment || '');
-      setDistractionCount(sessionData.distractions);
-      
-      // Check if this session ended the streak
-      if (sessionData.distractions >= 3 && streakCount > 0) {
-        setStreakEnded(true);
-        if (onStreakEnded) {
-          onStreakEnded();
-        }
-      } else {
-        setStreakEnded(false);
-      }
+      setDistractionLog(sessionData.distractionLog ?? []);
     }
-  }, [isVisible, sessionData, streakCount, onStreakEnded]);
+  }, [isVisible, sessionData]);
 
   const handleCommentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setComment(e.target.value);
   };
 
   const handleAddDistraction = () => {
-    const newCount = distractionCount + 1;
-    setDistractionCount(newCount);
-    
-    // Check if adding this distraction will end the streak
-    if (newCount >= 3 && streakCount > 0 && !streakEnded) {
-      setStreakEnded(true);
-      if (onStreakEnded) {
-        onStreakEnded();
-      }
-    }
-    
-    if (sessionData) {
-      sessionData.distractions = newCount;
-    }
+    // Added after the fact, so pin it to the end of the session
+    setDistractionLog(prev => [...prev, { offsetMs: sessionData?.duration ?? 0 }]);
   };
 
   const handleSave = () => {
     if (sessionData) {
-      sessionData.comment = comment;
-      sessionData.distractions = distractionCount;
+      onSave({
+        ...sessionData,
+        comment,
+        distractionLog,
+        distractions: distractionLog.length,
+      });
     }
-    onClose();
   };
 
   if (!isVisible || !sessionData) return null;
 
+  const distractionCount = distractionLog.length;
+  const autoDistractions = sessionData.autoDistractions ?? [];
+  // Checked against the edited distraction count, so the verdict updates while editing
+  const streak = evaluateStreakSession({ ...sessionData, distractions: distractionCount }, streakRules);
+  const failedChecks = streak.checks.filter(check => !check.passed);
+  const xp = computeSessionXp({ ...sessionData, distractions: distractionCount });
+  const pauses = sessionData.pauses ?? [];
+  const pauseReasons = formatPauseReasons(pauses);
+
   const formatDuration = (ms: number): string => {
     const minutes = Math.floor(ms / 60000);
     const seconds = Math.floor((ms % 60000) / 1000);
@@ -94,10 +88,20 @@ export const SessionSummaryPanel = ({
           </h2>
         </div>
 
-        {/* Streak Ended Message */}
-        {streakEnded && (
-          <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400 rounded-md font-bold text-sm">
-            Oops, your streak ended! But remember: channel your inner Goggins and start the next session stronger.
+        {/* Streak verdict and the rules behind it */}
+        {streak.qualifies ? (
+          <div className="mb-4 p-3 bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-400 rounded-md text-sm">
+            <div className="font-bold">🔥 Streak {streakCount > 0 ? `grows to ${streakCount + 1}` : 'started'}!</div>
+            <div className="text-xs">{streak.checks.map(check => check.detail).join(' · ')}</div>
+          </div>
+        ) : (
+          <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400 rounded-md text-sm">
+            <div className="font-bold">
+              {streakCount > 0
+                ? 'Oops, your streak ended! But remember: channel your inner Goggins and start the next session stronger.'
+                : 'No streak this time.'}
+            </div>
+            <div className="text-xs">{failedChecks.map(check => check.detail).join(' · ')}</div>
           </div>
         )}
 
@@ -121,6 +125,19 @@ export const SessionSummaryPanel = ({
             <span className="ml-2 font-medium">{formatDuration(sessionData.duration)}</span>
           </div>
 
+          {pauses.length > 0 && (
+            <div className="flex items-start">
+              <span className="mr-3 text-lg">⏸️</span>
+              <span className="text-gray-500 dark:text-gray-400">Pauses: </span>
+              <span className="ml-2 font-medium">
+                {pauses.length} ({formatDuration(getTotalPausedMs(pauses))})
+                {pauseReasons && (
+                  <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{pauseReasons}</span>
+                )}
+              </span>
+            </div>
+          )}
+
           <div className="flex items-center">
             <span className="mr-3 text-lg">👤</span>
             <span className="text-gray-500 dark:text-gray-400">Posture: </span>
@@ -129,6 +146,9 @@ export const SessionSummaryPanel = ({
             </span>
           </div>
 
+          {/* Uses the edited log, so markers follow changes to the distractions */}
+          <PostureTimelineStrip session={{ ...sessionData, distractionLog }} />
+
           <div className="flex items-center justify-between">
             <div className="flex items-center">
               <span className="mr-3 text-lg">❌</span>
@@ -147,6 +167,37 @@ export const SessionSummaryPanel = ({
             </button>
           </div>
 
+          {/* When the distractions happened, and what they were */}
+          {distractionLog.length > 0 && (
+            <div className="space-y-2">
+              <DistractionTimeline events={distractionLog} durationMs={sessionData.duration} />
+              <DistractionListEditor
+                events={distractionLog}
+                categories={categories}
+                onChange={setDistractionLog}
+              />
+              <div className="flex flex-wrap gap-2 text-xs text-gray-600 dark:text-gray-400">
+                {countByCategory(distractionLog).map(({ category, count }) => (
+                  <span key={category} className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                    {category} ×{count}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {autoDistractions.length > 0 && (
+            <div className="flex items-center">
+              <span className="mr-3 text-lg">🤖</span>
+              <span className="text-gray-500 dark:text-gray-400">Auto-detected: </span>
+              <span className="ml-2 font-medium">
+                {autoDistractions.length} (away {formatDuration(getTotalAwayMs(autoDistractions))})
+              </span>
+            </div>
+          )}
+
+          <XpBreakdown xp={xp} />
+
           {/* Comment Field */}
           <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
             <div>
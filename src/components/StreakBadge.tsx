@@ -0,0 +1,29 @@
+import { DayStreak } from '../utils/dayStreak';
+
+interface StreakBadgeProps {
+  sessionStreak: number;
+  dayStreak: DayStreak;
+  sessionRuleHint: string; // What a session needs to count, for the tooltip
+}
+
+export const StreakBadge = ({ sessionStreak, dayStreak, sessionRuleHint }: StreakBadgeProps) => {
+  if (sessionStreak === 0 && dayStreak.current === 0 && dayStreak.longest === 0) return null;
+
+  const tooltip = [
+    `Streak 🔥 Day ${dayStreak.current}${dayStreak.todayMet ? '' : ' (today not counted yet)'}`,
+    `Longest: ${dayStreak.longest} ${dayStreak.longest === 1 ? 'day' : 'days'}`,
+    ...(dayStreak.freezes > 0 ? [`❄️ ${dayStreak.freezes} streak ${dayStreak.freezes === 1 ? 'freeze' : 'freezes'} banked`] : []),
+    `Session streak: ${sessionStreak}. ${sessionRuleHint}`,
+  ].join('\n');
+
+  return (
+    <div
+      className="absolute -top-2 -right-2 bg-[color:var(--accent-green)] text-white text-xs font-bold px-2 py-1 rounded-full shadow-md flex items-center gap-2"
+      title={tooltip}
+    >
+      <span>🔥 x{sessionStreak}</span>
+      <span>📅 {dayStreak.current}<span className="font-normal opacity-80">/{dayStreak.longest}</span></span>
+      {dayStreak.freezes > 0 && <span>❄️{dayStreak.freezes}</span>}
+    </div>
+  );
+};
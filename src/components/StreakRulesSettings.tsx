@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { StreakRules } from '../utils/streak';
+import { Difficulty } from '../types/history';
+
+interface StreakRulesSettingsProps {
+  rules: StreakRules;
+  onChange: (changes: Partial<StreakRules>) => void;
+}
+
+const NUMBER_FIELDS: { key: 'maxDistractions' | 'minPosture' | 'minDurationMinutes'; label: string; unit: string; max: number }[] = [
+  { key: 'maxDistractions', label: 'Max distractions', unit: '', max: 50 },
+  { key: 'minPosture', label: 'Min posture', unit: '%', max: 100 },
+  { key: 'minDurationMinutes', label: 'Min length', unit: 'min', max: 180 },
+];
+
+const DIFFICULTY_BADGES: Record<Difficulty, string> = { easy: '🟢', medium: '🟡', hard: '🔴' };
+
+const inputClass = 'w-14 px-1 py-0.5 border rounded text-center dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export const StreakRulesSettings = ({ rules, onChange }: StreakRulesSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleNumberChange = (key: typeof NUMBER_FIELDS[number]['key'], value: string) => {
+    const num = parseInt(value);
+    if (!isNaN(num) && num >= 0) {
+      onChange({ [key]: num });
+    }
+  };
+
+  const handleWeightChange = (difficulty: Difficulty, value: string) => {
+    const num = parseFloat(value);
+    if (!isNaN(num) && num >= 0) {
+      onChange({ difficultyWeights: { ...rules.difficultyWeights, [difficulty]: num } });
+    }
+  };
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+      <button onClick={() => setIsOpen(prev => !prev)} className="font-medium hover:text-gray-800 dark:hover:text-gray-200">
+        🔥 Streak rules {isOpen ? '▾' : '▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            {NUMBER_FIELDS.map(({ key, label, unit, max }) => (
+              <label key={key} className="flex items-center gap-1" title="0 turns the check off">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={max}
+                  value={rules[key]}
+                  onChange={(e) => handleNumberChange(key, e.target.value)}
+                  className={inputClass}
+                />
+                {unit && <span>{unit}</span>}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span title="Multiplies the distraction allowance">Allowance by difficulty</span>
+            {(Object.keys(DIFFICULTY_BADGES) as Difficulty[]).map(difficulty => (
+              <label key={difficulty} className="flex items-center gap-1">
+                <span>{DIFFICULTY_BADGES[difficulty]} ×</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  step={0.5}
+                  value={rules.difficultyWeights[difficulty]}
+                  onChange={(e) => handleWeightChange(difficulty, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rules.countAutoDistractions}
+              onChange={(e) => onChange({ countAutoDistractions: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            <span>Count auto-detected distractions</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
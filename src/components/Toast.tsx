@@ -1,11 +1,17 @@
 import React, { useEffect, useState } from 'react';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   duration?: number;
+  action?: ToastAction;
 }
 
-export const Toast = ({ message, duration = 3000 }: ToastProps) => {
+export const Toast = ({ message, duration = 3000, action }: ToastProps) => {
   const [visible, setVisible] = useState(true);
   
   useEffect(() => {
@@ -19,8 +25,19 @@ export const Toast = ({ message, duration = 3000 }: ToastProps) => {
   if (!visible) return null;
   
   return (
-    <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 bg-gray-800 dark:bg-gray-700 text-white px-4 py-2 rounded-lg shadow-lg text-sm animate-fade-in-scale z-50">
+    <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 bg-gray-800 dark:bg-gray-700 text-white px-4 py-2 rounded-lg shadow-lg text-sm animate-fade-in-scale z-50 flex items-center gap-3">
       {message}
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            setVisible(false);
+          }}
+          className="font-semibold text-yellow-300 hover:text-yellow-200 uppercase text-xs tracking-wide"
+        >
+          {action.label}
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { format } from 'date-fns';
+import { TrashEntry } from '../lib/storage';
+
+interface TrashBinProps {
+  isOpen: boolean;
+  entries: TrashEntry[];
+  retentionDays: number;
+  onRetentionDaysChange: (days: number) => void;
+  onRestore: (entries: TrashEntry[]) => void;
+  onEmpty: () => void;
+  onClose: () => void;
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 90];
+
+// One-line description of what was deleted
+const describeEntry = (entry: TrashEntry): string => {
+  if (entry.kind === 'todo') return `✅ ${entry.item.text}`;
+  const item = entry.item;
+  if (item.type === "session") return `🎯 ${item.goal} · ${format(item.timestamp, 'MMM d, HH:mm')}`;
+  return `☕ Break${item.note ? `: ${item.note}` : ''} · ${format(item.start, 'MMM d, HH:mm')}`;
+};
+
+export const TrashBin = ({
+  isOpen,
+  entries,
+  retentionDays,
+  onRetentionDaysChange,
+  onRestore,
+  onEmpty,
+  onClose
+}: TrashBinProps) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-lg w-full mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-semibold">🗑️ Trash</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">✕</button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Keep deleted items for
+          <select
+            value={retentionDays}
+            onChange={(e) => onRetentionDaysChange(parseInt(e.target.value))}
+            className="px-2 py-1 border rounded text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">The trash is empty.</p>
+        ) : (
+          <ul className="space-y-1 max-h-[50vh] overflow-y-auto mb-4">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between gap-3 rounded p-2 text-sm bg-gray-100 dark:bg-gray-700">
+                <div className="min-w-0">
+                  <div className="truncate">{describeEntry(entry)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Deleted {format(entry.deletedAt, 'MMM d, HH:mm')}</div>
+                </div>
+                <button
+                  onClick={() => onRestore([entry])}
+                  className="flex-shrink-0 text-xs text-blue-500 hover:text-blue-600 dark:text-blue-400"
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {entries.length > 0 && (
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onEmpty}
+              className="px-4 py-2 rounded-md text-sm bg-red-600 text-white hover:bg-red-700 transition-colors"
+            >
+              Empty trash
+            </button>
+            <button
+              onClick={() => onRestore(entries)}
+              className="px-4 py-2 rounded-md text-sm bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+            >
+              Restore all
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { DayStats } from '../utils/analytics';
+import { formatTotalDuration } from '../utils/time';
+
+interface WeeklyFocusBarsProps {
+  days: DayStats[];
+  currentDayStart: number;
+}
+
+export const WeeklyFocusBars = ({ days, currentDayStart }: WeeklyFocusBarsProps) => {
+  const maxFocusMs = Math.max(...days.map(day => day.focusMs), 1);
+
+  return (
+    <div className="flex items-end justify-between gap-1 h-20 mt-3">
+      {days.map(day => (
+        <div key={day.dayStart} className="flex-1 flex flex-col items-center h-full justify-end">
+          <div
+            className={`w-full rounded-t ${day.dayStart === currentDayStart ? 'bg-blue-500' : 'bg-blue-300 dark:bg-blue-700'}`}
+            style={{ height: `${(day.focusMs / maxFocusMs) * 100}%`, minHeight: day.focusMs > 0 ? '2px' : 0 }}
+            title={`${formatTotalDuration(day.focusMs)} focus · ${day.sessions} sessions`}
+          />
+          <span className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">{day.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
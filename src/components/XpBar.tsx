@@ -0,0 +1,42 @@
+import { HistoryItem } from '../types/history';
+import { computeTotalXp, computeDailyXp, getLevelProgress } from '../utils/xp';
+
+interface XpBarProps {
+  history: HistoryItem[];
+  dayStartHour: number;
+  dailyGoalXp: number;
+}
+
+export const XpBar = ({ history, dayStartHour, dailyGoalXp }: XpBarProps) => {
+  const totalXp = computeTotalXp(history);
+  const dailyXp = computeDailyXp(history, dayStartHour);
+  const { level, levelXp, levelSpan } = getLevelProgress(totalXp);
+  const dailyPercent = dailyGoalXp > 0 ? Math.min(100, (dailyXp / dailyGoalXp) * 100) : 0;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg mb-4">
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="font-semibold text-gray-800 dark:text-gray-200" title={`${totalXp} XP in total`}>
+          ⭐ Level {level}
+        </span>
+        <span className="text-gray-500 dark:text-gray-400">
+          {levelXp} / {levelSpan} XP to level {level + 1}
+        </span>
+      </div>
+      <div className="h-1 rounded bg-gray-200 dark:bg-gray-600 mb-3 overflow-hidden">
+        <div className="h-full bg-yellow-400 transition-all duration-500" style={{ width: `${(levelXp / levelSpan) * 100}%` }} />
+      </div>
+
+      <div className="flex items-center justify-between text-xs mb-1 text-gray-600 dark:text-gray-400">
+        <span>Today's XP</span>
+        <span>{dailyXp} / {dailyGoalXp}</span>
+      </div>
+      <div className="h-2 rounded bg-gray-200 dark:bg-gray-600 overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-yellow-400 to-orange-500 transition-all duration-500"
+          style={{ width: `${dailyPercent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import { SessionXp } from '../utils/xp';
+
+interface XpBreakdownProps {
+  xp: SessionXp;
+}
+
+export const XpBreakdown = ({ xp }: XpBreakdownProps) => (
+  <div className="flex items-start">
+    <span className="mr-3 text-lg">⭐</span>
+    <span className="text-gray-500 dark:text-gray-400">XP: </span>
+    <span className="ml-2 font-medium">
+      +{xp.total}
+      <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+        {xp.base} focus min
+        {xp.factors.map(factor => (
+          <span key={factor.label} className={factor.multiplier < 1 ? 'text-red-500 dark:text-red-400' : ''}>
+            {' '}× {factor.multiplier} {factor.label}
+          </span>
+        ))}
+      </span>
+    </span>
+  </div>
+);
@@ -5,23 +5,41 @@ import React, {
   useRef,
   useEffect,
   useCallback,
+  useMemo,
 } from "react";
 // Ensure poseDetector is imported correctly (default export from the modified file)
 import poseDetector from "@/lib/poseDetector"; // Check this path if build fails
+import { useSetting } from "@/hooks/useSetting";
 import {
   PoseLandmarkerResult,
   NormalizedLandmark,
 } from "@mediapipe/tasks-vision";
-import { isGoodPosture, POSE_LANDMARKS } from "@/utils/postureDetect"; // Ensure this path is correct
-
-// Define structure for baseline metrics
-interface BaselineMetrics {
-  noseY: number;
-  noseX: number; 
-  // shoulderY: number; // Not needed for current ref logic + lean check
-  earShoulderDistX: number; // For lean check
-  // noseShoulderDiffY: number; // Not needed
-}
+import {
+  isGoodPosture,
+  measurePostureDeviation,
+  getBaselineMetrics,
+  BaselineMetrics,
+  DEFAULT_POSTURE_SENSITIVITY,
+  normalizePostureSensitivity,
+  DEFAULT_LEAN_SENSITIVITY,
+  normalizeLeanSensitivity,
+} from "@/utils/postureDetect";
+import {
+  PostureSmoothingConfig,
+  INITIAL_STABILIZER_STATE,
+  stepPostureStabilizer,
+  stepPostureAbsent,
+  DEFAULT_POSTURE_SMOOTHING,
+  normalizePostureSmoothing,
+} from "@/utils/postureStabilizer";
+import { PostureAngles, AngleDeltas, computePostureAngles, compareAngles } from "@/utils/poseMath";
+import {
+  OneEuroConfig,
+  LandmarkFilterState,
+  filterLandmarks,
+  DEFAULT_ONE_EURO_CONFIG,
+  normalizeOneEuroConfig,
+} from "@/utils/oneEuroFilter";
 
 // Update the PostureContextType interface
 interface PostureContextType {
@@ -31,6 +49,8 @@ interface PostureContextType {
   isDetecting: boolean;
   detectedLandmarks: NormalizedLandmark[] | undefined;
   baselineMetrics: BaselineMetrics | null | undefined;
+  postureAngles: PostureAngles | null; // Live, from the latest landmarks
+  angleDeltas: AngleDeltas | null; // Change since calibration
   handleCalibration: () => void;
   cameraError: string | null;
   postureStatus: { isGood: boolean; message: string };
@@ -40,6 +60,12 @@ interface PostureContextType {
   countdown: number | null;
   sensitivityPercentage: number;
   setSensitivityPercentage: React.Dispatch<React.SetStateAction<number>>;
+  leanSensitivityPercentage: number;
+  setLeanSensitivityPercentage: React.Dispatch<React.SetStateAction<number>>;
+  postureSmoothing: PostureSmoothingConfig;
+  updatePostureSmoothing: (changes: Partial<PostureSmoothingConfig>) => void;
+  landmarkFilter: OneEuroConfig;
+  updateLandmarkFilter: (changes: Partial<OneEuroConfig>) => void;
 }
 
 const PostureContext = createContext<PostureContextType | undefined>(undefined);
@@ -53,6 +79,7 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
     NormalizedLandmark[] | undefined
   >(undefined);
   const [baselineMetrics, setBaselineMetrics] = useState<BaselineMetrics | null | undefined>(null);
+  const [baselineAngles, setBaselineAngles] = useState<PostureAngles | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [postureStatus, setPostureStatus] = useState<{ isGood: boolean; message: string }>({
     isGood: true, // Default to green bar initially, or false for red
@@ -62,7 +89,10 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
   const [isCalibrating, setIsCalibrating] = useState(false); // State for calibration process
   const [isLoadingDetector, setIsLoadingDetector] = useState(false);
   const [countdown, setCountdown] = useState<number | null>(null); // State for countdown display
-  const [sensitivityPercentage, setSensitivityPercentage] = useState(10); // New: Default to 10%
+  const [sensitivityPercentage, setSensitivityPercentage] = useSetting<number>('postureSensitivity', DEFAULT_POSTURE_SENSITIVITY, normalizePostureSensitivity);
+  const [leanSensitivityPercentage, setLeanSensitivityPercentage] = useSetting<number>('leanSensitivity', DEFAULT_LEAN_SENSITIVITY, normalizeLeanSensitivity);
+  const [postureSmoothing, setPostureSmoothing] = useSetting<PostureSmoothingConfig>('postureSmoothing', DEFAULT_POSTURE_SMOOTHING, normalizePostureSmoothing);
+  const [landmarkFilter, setLandmarkFilter] = useSetting<OneEuroConfig>('landmarkFilter', DEFAULT_ONE_EURO_CONFIG, normalizeOneEuroConfig);
   const intervalIdRef = useRef<number | null>(null);
   const detectingRef = useRef<boolean>(false);
   const calibrationTimerRef = useRef<number | null>(null); // Ref for calibration countdown timer
@@ -73,6 +103,14 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
   const detectedLandmarksRef = useRef(detectedLandmarks);
   const postureStatusRef = useRef(postureStatus);
   const sensitivityPercentageRef = useRef(sensitivityPercentage); // New Ref
+  const leanSensitivityPercentageRef = useRef(leanSensitivityPercentage);
+  const postureSmoothingRef = useRef(postureSmoothing);
+  // Frames are judged through the stabilizer, so posture only flips on sustained changes
+  const stabilizerRef = useRef(INITIAL_STABILIZER_STATE);
+  const lastIssueRef = useRef(""); // Message of the latest frame over the threshold
+  const landmarkFilterRef = useRef(landmarkFilter);
+  // Landmarks are de-jittered before they are evaluated or drawn
+  const filterStateRef = useRef<LandmarkFilterState | null>(null);
 
   // Effects to keep refs in sync with state
   useEffect(() => {
@@ -95,6 +133,27 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
     sensitivityPercentageRef.current = sensitivityPercentage;
   }, [sensitivityPercentage]);
 
+  useEffect(() => {
+    leanSensitivityPercentageRef.current = leanSensitivityPercentage;
+  }, [leanSensitivityPercentage]);
+
+  useEffect(() => {
+    postureSmoothingRef.current = postureSmoothing;
+  }, [postureSmoothing]);
+
+  useEffect(() => {
+    landmarkFilterRef.current = landmarkFilter;
+    filterStateRef.current = null;
+  }, [landmarkFilter]);
+
+  const updateLandmarkFilter = useCallback((changes: Partial<OneEuroConfig>) => {
+    setLandmarkFilter(prev => ({ ...prev, ...changes }));
+  }, [setLandmarkFilter]);
+
+  const updatePostureSmoothing = useCallback((changes: Partial<PostureSmoothingConfig>) => {
+    setPostureSmoothing(prev => ({ ...prev, ...changes }));
+  }, [setPostureSmoothing]);
+
   const handleCalibration = () => {
     if (calibrationTimerRef.current) { // Prevent starting if already calibrating
       console.log("CONTEXT: Calibration already in progress.");
@@ -126,22 +185,17 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
 
             console.log("CONTEXT: Capturing baseline metrics after countdown...");
             const landmarksAtCalibrationTime = detectedLandmarksRef.current;
-            const nose = landmarksAtCalibrationTime?.[POSE_LANDMARKS.NOSE];
-            const leftEar = landmarksAtCalibrationTime?.[POSE_LANDMARKS.LEFT_EAR];
-            const leftShoulder = landmarksAtCalibrationTime?.[POSE_LANDMARKS.LEFT_SHOULDER];
+            const metrics = getBaselineMetrics(landmarksAtCalibrationTime);
 
             // Calculate baseline metrics
-            if (landmarksAtCalibrationTime && nose?.x && nose?.y && leftEar?.x && leftShoulder?.x) { 
-              const metrics: BaselineMetrics = {
-                noseY: nose.y,
-                noseX: nose.x,
-                earShoulderDistX: Math.abs(leftEar.x - leftShoulder.x)
-              };
+            if (landmarksAtCalibrationTime && metrics) { 
               setBaselineMetrics(metrics); // Store calculated metrics
+              setBaselineAngles(computePostureAngles(landmarksAtCalibrationTime));
+              stabilizerRef.current = INITIAL_STABILIZER_STATE;
               setIsCalibrated(true); // Calibration complete
               setIsCalibrating(false);
               // Check posture immediately with the new metrics and sensitivity
-              const status = isGoodPosture(landmarksAtCalibrationTime, metrics, sensitivityPercentageRef.current); 
+              const status = isGoodPosture(landmarksAtCalibrationTime, metrics, sensitivityPercentageRef.current, leanSensitivityPercentageRef.current); 
               setPostureStatus(status);
               console.log("CONTEXT: Calibration complete. isCalibrated=true. Metrics:", metrics, "Status:", status, "Sensitivity:", sensitivityPercentageRef.current);
             } else {
@@ -150,6 +204,7 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
               setIsCalibrated(false);
               setIsCalibrating(false);
               setBaselineMetrics(null); // Ensure metrics are null
+              setBaselineAngles(null);
             }
           }
         }, 1000); // 1-second interval
@@ -173,12 +228,25 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
       const currentPostureStatusMessage = postureStatusRef.current.message;
 
       if (result.landmarks && result.landmarks.length > 0) {
-        const newLandmarksFromDetector = result.landmarks[0];
+        let newLandmarksFromDetector = result.landmarks[0];
+        if (landmarkFilterRef.current.enabled) {
+          const filtered = filterLandmarks(filterStateRef.current, newLandmarksFromDetector, timestampMs, landmarkFilterRef.current);
+          filterStateRef.current = filtered.state;
+          newLandmarksFromDetector = filtered.landmarks;
+        }
         setDetectedLandmarks(newLandmarksFromDetector);
 
         if (currentIsCalibrated && currentBaselineMetrics) {
-          const status = isGoodPosture(newLandmarksFromDetector, currentBaselineMetrics, currentSensitivityPercentage); // Pass sensitivity
-          setPostureStatus(status);
+          const deviation = measurePostureDeviation(
+            newLandmarksFromDetector, currentBaselineMetrics, currentSensitivityPercentage, leanSensitivityPercentageRef.current
+          );
+          // Frames with landmarks missing are skipped rather than counted as bad
+          if (deviation) {
+            stabilizerRef.current = stepPostureStabilizer(stabilizerRef.current, timestampMs, deviation.ratio, postureSmoothingRef.current);
+            if (deviation.ratio > 1) lastIssueRef.current = deviation.message;
+            const { isGood } = stabilizerRef.current;
+            setPostureStatus({ isGood, message: isGood ? "Posture OK!" : lastIssueRef.current });
+          }
         } else if (!isCalibrating) { // Only update if not in the middle of calibrating
           const preCalibrationStatus = isGoodPosture(newLandmarksFromDetector, null, currentSensitivityPercentage); // Pass sensitivity
           const message = newLandmarksFromDetector.length > 0 ? "Ready to calibrate." : "Initializing detector...";
@@ -188,8 +256,11 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
 
       } else {
         setDetectedLandmarks(undefined);
+        filterStateRef.current = null; // Don't smear the old pose into the next person seen
         if (currentIsCalibrated) {
-          setPostureStatus({ isGood: false, message: "No person detected." });
+          // A brief dropout keeps the current state, so it doesn't restart the bad-posture nudge
+          stabilizerRef.current = stepPostureAbsent(stabilizerRef.current, timestampMs, postureSmoothingRef.current);
+          if (stabilizerRef.current.isAbsent) setPostureStatus({ isGood: false, message: "No person detected." });
         } else if (!isCalibrating) { // Only update if not calibrating
           setPostureStatus({ isGood: true, message: "Initializing detector..." });
         }
@@ -319,6 +390,9 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
     setDetectedLandmarks(undefined);
     setIsCalibrated(false); 
     setBaselineMetrics(null);
+    setBaselineAngles(null);
+    stabilizerRef.current = INITIAL_STABILIZER_STATE;
+    filterStateRef.current = null;
     setIsCalibrating(false); 
     setCountdown(null);
     setPostureStatus({ isGood: true, message: "Detection stopped." });
@@ -352,6 +426,12 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
     };
   }, []);
 
+  const postureAngles = useMemo(() => computePostureAngles(detectedLandmarks), [detectedLandmarks]);
+  const angleDeltas = useMemo(
+    () => (postureAngles && baselineAngles ? compareAngles(postureAngles, baselineAngles) : null),
+    [postureAngles, baselineAngles]
+  );
+
   return (
     <PostureContext.Provider
       value={{
@@ -361,6 +441,8 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
         isDetecting,
         detectedLandmarks,
         baselineMetrics,
+        postureAngles,
+        angleDeltas,
         handleCalibration,
         cameraError,
         postureStatus,
@@ -370,6 +452,12 @@ export const PostureProvider: React.FC<{ children: React.ReactNode }> = ({
         countdown,
         sensitivityPercentage,
         setSensitivityPercentage,
+        leanSensitivityPercentage,
+        setLeanSensitivityPercentage,
+        postureSmoothing,
+        updatePostureSmoothing,
+        landmarkFilter,
+        updateLandmarkFilter,
       }}
     >
       {children}
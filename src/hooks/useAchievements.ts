@@ -0,0 +1,45 @@
+import { useState, useEffect, useRef } from 'react';
+import { HistoryItem } from '../types/history';
+import { getSetting, saveSetting } from '../lib/storage';
+import { DayStreakConfig } from '../utils/dayStreak';
+import { AchievementDefinition, UnlockedAchievements, findNewAchievements } from '../utils/achievements';
+
+interface UseAchievementsOptions {
+  history: HistoryItem[];
+  dayStartHour: number;
+  dayStreakConfig: DayStreakConfig;
+  enabled: boolean; // Hold off until history has loaded, or nothing looks earned yet
+  onUnlock: (achievements: AchievementDefinition[]) => void;
+}
+
+/**
+ * Re-checks the achievements whenever history changes, which covers finished
+ * sessions as well as imported data, and records new unlocks.
+ */
+export const useAchievements = ({ history, dayStartHour, dayStreakConfig, enabled, onUnlock }: UseAchievementsOptions) => {
+  // null until the stored unlocks are in, so old unlocks aren't announced again
+  const [unlocked, setUnlocked] = useState<UnlockedAchievements | null>(null);
+  const onUnlockRef = useRef(onUnlock);
+  onUnlockRef.current = onUnlock;
+
+  useEffect(() => {
+    getSetting<UnlockedAchievements>('achievements', {})
+      .then(setUnlocked)
+      .catch(error => console.error('Failed to load achievements:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || unlocked === null) return;
+    const earned = findNewAchievements(history, { dayStartHour, dayStreakConfig }, unlocked);
+    if (earned.length === 0) return;
+
+    const now = Date.now();
+    const next = { ...unlocked };
+    earned.forEach(achievement => { next[achievement.id] = now; });
+    setUnlocked(next);
+    saveSetting('achievements', next);
+    onUnlockRef.current(earned);
+  }, [history, dayStartHour, dayStreakConfig, enabled, unlocked]);
+
+  return unlocked ?? {};
+};
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { AutoDistractionEvent } from '../types/history';
+
+interface UseAutoDistractionDetectorProps {
+  enabled: boolean; // Only watch while a session is running
+  graceMs: number;
+  // Called when the user comes back after being away longer than the grace period
+  onDetected: (leftAt: number, awayMs: number, source: AutoDistractionEvent['source']) => void;
+}
+
+/**
+ * Watches tab visibility and window focus. Switching tabs fires both a blur and
+ * a visibilitychange, so the two are merged into a single stretch of time away
+ * that ends once the page is visible and focused again.
+ */
+export const useAutoDistractionDetector = ({ enabled, graceMs, onDetected }: UseAutoDistractionDetectorProps) => {
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const graceMsRef = useRef(graceMs);
+  graceMsRef.current = graceMs;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let leftAt: number | null = null;
+    let source: AutoDistractionEvent['source'] = 'blur';
+
+    const handleAway = () => {
+      if (document.hidden) source = 'hidden';
+      if (leftAt === null) leftAt = Date.now();
+    };
+
+    const handleBack = () => {
+      if (leftAt === null || document.hidden || !document.hasFocus()) return;
+      const awayMs = Date.now() - leftAt;
+      if (awayMs > graceMsRef.current) {
+        onDetectedRef.current(leftAt, awayMs, source);
+      }
+      leftAt = null;
+      source = 'blur';
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        handleAway();
+      } else {
+        handleBack();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleAway);
+    window.addEventListener('focus', handleBack);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleAway);
+      window.removeEventListener('focus', handleBack);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,115 @@
+import { useState, useRef } from 'react';
+import { useTimer } from './useTimer';
+import { useSetting } from './useSetting';
+import { generateId } from '../types/history';
+import {
+  PomodoroConfig,
+  PomodoroCycle,
+  getNextPhase,
+  getPhaseDurationMs,
+  DEFAULT_POMODORO_CONFIG,
+  normalizePomodoroConfig,
+} from '../utils/pomodoro';
+
+interface UsePomodoroCycleProps {
+  // Called when a break countdown runs out, with the work block that comes next
+  // or null if the break closed the set
+  onBreakComplete: (next: PomodoroCycle | null) => void;
+}
+
+/**
+ * Sequences work blocks and breaks of a pomodoro set. Work blocks are run by
+ * the app's session timer; the break countdowns run on their own timer here.
+ */
+export const usePomodoroCycle = ({ onBreakComplete }: UsePomodoroCycleProps) => {
+  const [config, setConfig] = useSetting<PomodoroConfig>('pomodoroConfig', DEFAULT_POMODORO_CONFIG, normalizePomodoroConfig);
+  const [cycle, setCycle] = useState<PomodoroCycle | null>(null);
+  const [breakRemainingMs, setBreakRemainingMs] = useState(0);
+  const cycleRef = useRef(cycle);
+  cycleRef.current = cycle;
+  const configRef = useRef(config);
+  configRef.current = config;
+  const onBreakCompleteRef = useRef(onBreakComplete);
+  onBreakCompleteRef.current = onBreakComplete;
+
+  // Update the ref too, so a follow-up call in the same tick sees the new phase
+  const applyCycle = (next: PomodoroCycle | null) => {
+    cycleRef.current = next;
+    setCycle(next);
+  };
+
+  const breakTimer = useTimer({
+    onTimerEnd: () => {
+      const current = cycleRef.current;
+      breakTimer.stopTimer();
+      setBreakRemainingMs(0);
+      const next = current ? getNextPhase(current, configRef.current) : null;
+      applyCycle(next);
+      onBreakCompleteRef.current(next);
+    },
+    onTimerTick: setBreakRemainingMs,
+    onTimerStart: () => {},
+  });
+
+  const updateConfig = (changes: Partial<PomodoroConfig>) => {
+    setConfig(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * Called when a work session starts. Opens a new set, or moves an existing
+   * one on to its next work block (skipping whatever is left of a break).
+   */
+  const startWorkBlock = (goal: string): PomodoroCycle | null => {
+    if (!configRef.current.enabled) return null;
+
+    let next: PomodoroCycle | null;
+    const current = cycleRef.current;
+    if (!current) {
+      next = { id: generateId(), phase: 'work', block: 1, goal };
+    } else if (current.phase === 'work') {
+      next = { ...current, goal };
+    } else {
+      breakTimer.stopTimer();
+      setBreakRemainingMs(0);
+      next = getNextPhase(current, configRef.current);
+      next = next ? { ...next, goal } : { id: generateId(), phase: 'work', block: 1, goal };
+    }
+
+    applyCycle(next);
+    return next;
+  };
+
+  /**
+   * Called when a work session ends. A block that ran to the end moves the set
+   * on to its break and starts the countdown; a block stopped early ends the set.
+   */
+  const completeWorkBlock = (finished: boolean): PomodoroCycle | null => {
+    const current = cycleRef.current;
+    if (!current || current.phase !== 'work') return null;
+
+    const next = finished ? getNextPhase(current, configRef.current) : null;
+    applyCycle(next);
+    if (next) {
+      const durationMs = getPhaseDurationMs(next.phase, configRef.current);
+      setBreakRemainingMs(durationMs);
+      breakTimer.startTimer(durationMs);
+    }
+    return next;
+  };
+
+  const endCycle = () => {
+    breakTimer.stopTimer();
+    setBreakRemainingMs(0);
+    applyCycle(null);
+  };
+
+  return {
+    config,
+    updateConfig,
+    cycle,
+    breakRemainingMs,
+    startWorkBlock,
+    completeWorkBlock,
+    endCycle,
+  };
+};
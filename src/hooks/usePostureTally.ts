@@ -0,0 +1,38 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { PostureSample, PostureTally, EMPTY_POSTURE_TALLY, addPostureTime } from '../utils/postureTally';
+
+/**
+ * Adds up good and bad posture time while isCounting is true. Time is
+ * credited to the sample that was current, each time the sample changes
+ * or counting stops, so no polling is needed.
+ */
+export const usePostureTally = (sample: PostureSample, isCounting: boolean) => {
+  const tallyRef = useRef<PostureTally>(EMPTY_POSTURE_TALLY);
+  // The stretch currently being timed, null while not counting
+  const segmentRef = useRef<{ sample: PostureSample; since: number } | null>(null);
+
+  useEffect(() => {
+    const now = Date.now();
+    const segment = segmentRef.current;
+    if (segment) {
+      tallyRef.current = addPostureTime(tallyRef.current, segment.sample, now - segment.since);
+    }
+    segmentRef.current = isCounting ? { sample, since: now } : null;
+  }, [sample, isCounting]);
+
+  // Tally so far, including the stretch still running
+  const readTally = useCallback((now: number = Date.now()): PostureTally => {
+    const segment = segmentRef.current;
+    return segment ? addPostureTime(tallyRef.current, segment.sample, now - segment.since) : tallyRef.current;
+  }, []);
+
+  // Starts over, or from a checkpointed tally when a session is resumed
+  const resetTally = useCallback((initial: PostureTally = EMPTY_POSTURE_TALLY) => {
+    tallyRef.current = initial;
+    if (segmentRef.current) {
+      segmentRef.current = { ...segmentRef.current, since: Date.now() };
+    }
+  }, []);
+
+  return { readTally, resetTally };
+};
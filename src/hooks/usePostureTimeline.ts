@@ -0,0 +1,27 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { PostureChange, PostureTimelineState } from '../types/history';
+import { appendPostureChange } from '../utils/postureTimeline';
+
+/**
+ * Records posture state changes while a session is running, as offsets from
+ * the session start.
+ */
+export const usePostureTimeline = (state: PostureTimelineState, isRecording: boolean) => {
+  const timelineRef = useRef<PostureChange[]>([]);
+  const startedAtRef = useRef(0);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    timelineRef.current = appendPostureChange(timelineRef.current, Date.now() - startedAtRef.current, state);
+  }, [state, isRecording]);
+
+  const readTimeline = useCallback(() => timelineRef.current, []);
+
+  // Starts a new timeline, or carries on a checkpointed one when a session is resumed
+  const resetTimeline = useCallback((startedAt: number, initial: PostureChange[] = []) => {
+    startedAtRef.current = startedAt;
+    timelineRef.current = initial;
+  }, []);
+
+  return { readTimeline, resetTimeline };
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import {
+  OngoingSession,
+  saveOngoingSession,
+  ONGOING_CHECKPOINT_INTERVAL_MS,
+} from '../utils/ongoingSession';
+
+/**
+ * Periodically checkpoints the live session while one is running.
+ * Pass null when no session is active.
+ */
+export const useSessionCheckpoint = (snapshot: Omit<OngoingSession, 'savedAt'> | null) => {
+  // Keep the latest snapshot in a ref so the interval isn't recreated every tick
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+  const isActive = snapshot !== null;
+  const isPaused = snapshot ? snapshot.clock.pausedAt !== null : false;
+
+  // Pausing changes how a resume is computed, so write it out right away
+  useEffect(() => {
+    if (snapshotRef.current) {
+      saveOngoingSession(snapshotRef.current);
+    }
+  }, [isPaused]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const checkpoint = () => {
+      if (snapshotRef.current) {
+        saveOngoingSession(snapshotRef.current);
+      }
+    };
+
+    checkpoint();
+    const intervalId = setInterval(checkpoint, ONGOING_CHECKPOINT_INTERVAL_MS);
+    // Also write a final checkpoint when the page is being hidden or unloaded
+    window.addEventListener('pagehide', checkpoint);
+
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('pagehide', checkpoint);
+    };
+  }, [isActive]);
+};
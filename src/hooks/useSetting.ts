@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback, useRef, SetStateAction } from 'react';
+import { SettingKey, getSetting, saveSetting } from '../lib/storage';
+
+/**
+ * A single value from the settings store. Starts at the fallback until the
+ * stored value has loaded; updates are written back straight away. Stored
+ * values can come from old versions or backups, so normalize checks them.
+ */
+export const useSetting = <T,>(key: SettingKey, fallback: T, normalize?: (stored: unknown) => T) => {
+  const [value, setValue] = useState<T>(fallback);
+  const valueRef = useRef(value);
+  // Set once the value is changed here, so a slower load can't overwrite it
+  const changedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    changedRef.current = false;
+    getSetting<T>(key, fallback)
+      .then(stored => {
+        if (cancelled || changedRef.current) return;
+        valueRef.current = normalize ? normalize(stored) : stored;
+        setValue(valueRef.current);
+      })
+      .catch(error => console.error(`Failed to load setting "${key}":`, error));
+    return () => { cancelled = true; };
+  }, [key]); // The fallback only matters for the first load
+
+  const updateValue = useCallback((next: SetStateAction<T>) => {
+    const resolved = next instanceof Function ? next(valueRef.current) : next;
+    changedRef.current = true;
+    valueRef.current = resolved;
+    setValue(resolved);
+    saveSetting(key, resolved);
+  }, [key]);
+
+  return [value, updateValue] as const;
+};
@@ -1,6 +1,17 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  TimerClock,
+  TimerReading,
+  createClock,
+  pauseClock,
+  resumeClock,
+  readClock,
+  correctClockSkew,
+} from '../utils/timerClock';
 
-type Timeout = ReturnType<typeof setTimeout>;
+const TICK_INTERVAL_MS = 1000;
+
+const IDLE_READING: TimerReading = { elapsedMs: 0, remainingMs: 0, pausedMs: 0, isFinished: false };
 
 interface UseTimerProps {
   onTimerEnd: () => void;
@@ -8,94 +19,138 @@ interface UseTimerProps {
   onTimerStart: () => void; // Keep for signaling hook start
 }
 
-export const useTimer = ({ 
-  onTimerEnd, 
-  onTimerTick, 
-  onTimerStart 
+export const useTimer = ({
+  onTimerEnd,
+  onTimerTick,
+  onTimerStart
 }: UseTimerProps) => {
   const [isRunning, setIsRunning] = useState(false);
-  const [isPausedInternal, setIsPausedInternal] = useState(false); 
-  const [remainingMs, setRemainingMs] = useState<number>(0); // Initial value doesn't matter much now
-  const [sessionDurationMs, setSessionDurationMs] = useState<number>(0); // Store duration internally
-  const intervalRef = useRef<Timeout>();
-  const pausedTimeRef = useRef<number>(0);
-  const timerEndedRef = useRef<boolean>(false); 
+  const [isPausedInternal, setIsPausedInternal] = useState(false);
+  const [reading, setReading] = useState<TimerReading>(IDLE_READING);
+  const clockRef = useRef<TimerClock | null>(null);
+  const lastSampleRef = useRef({ wall: 0, mono: 0 });
+  const timerEndedRef = useRef<boolean>(false);
 
-  useEffect(() => {
-    if (isRunning && !isPausedInternal) {
-      timerEndedRef.current = false; 
-      intervalRef.current = setInterval(() => {
-        setRemainingMs((prev) => {
-          const wasInfinite = sessionDurationMs === Number.MAX_SAFE_INTEGER;
-          if (!wasInfinite && prev <= 1000) {
-            if (!timerEndedRef.current) {
-              timerEndedRef.current = true;
-              clearInterval(intervalRef.current);
-              setIsRunning(false); // Set running false on natural end
-              setTimeout(() => onTimerEnd(), 0); // Use setTimeout to ensure this runs after state updates
-            }
-            return 0; 
-          }
-          const newValue = prev - 1000;
-          onTimerTick(newValue);
-          return newValue;
-        });
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+  // Callbacks live in a ref so a new closure from the parent doesn't restart the interval
+  const callbacksRef = useRef({ onTimerEnd, onTimerTick, onTimerStart });
+  callbacksRef.current = { onTimerEnd, onTimerTick, onTimerStart };
+
+  const markSample = () => {
+    lastSampleRef.current = { wall: Date.now(), mono: performance.now() };
+  };
+
+  // Read the clock, correcting for any system clock change since the last sample
+  const sample = useCallback((): TimerReading | null => {
+    const clock = clockRef.current;
+    if (!clock) return null;
+
+    const wall = Date.now();
+    const mono = performance.now();
+    const last = lastSampleRef.current;
+    const corrected = correctClockSkew(clock, wall - last.wall, mono - last.mono);
+    clockRef.current = corrected;
+    lastSampleRef.current = { wall, mono };
+
+    return readClock(corrected, wall);
+  }, []);
+
+  const tick = useCallback(() => {
+    const next = sample();
+    if (!next) return;
+    setReading(next);
+
+    if (next.isFinished) {
+      if (!timerEndedRef.current) {
+        timerEndedRef.current = true;
+        setIsRunning(false); // Set running false on natural end
+        setTimeout(() => callbacksRef.current.onTimerEnd(), 0); // Use setTimeout to ensure this runs after state updates
       }
+      return;
     }
+    callbacksRef.current.onTimerTick(next.remainingMs);
+  }, [sample]);
+
+  useEffect(() => {
+    if (!isRunning || isPausedInternal) return;
+
+    tick();
+    const intervalId = setInterval(tick, TICK_INTERVAL_MS);
+    // Background tabs throttle intervals; re-read the clock as soon as the tab is back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [isRunning, isPausedInternal, sessionDurationMs, onTimerEnd, onTimerTick]);
+  }, [isRunning, isPausedInternal, tick]);
 
   const startTimer = (durationMs: number) => {
-    if (isRunning || durationMs <= 0) return;
-    
-    setSessionDurationMs(durationMs); // Store the duration for this session
-    setRemainingMs(durationMs); 
+    if (clockRef.current || durationMs <= 0) return;
+
+    clockRef.current = createClock(durationMs, Date.now());
+    markSample();
+    timerEndedRef.current = false;
+    setReading(readClock(clockRef.current, Date.now()));
     setIsPausedInternal(false);
-    timerEndedRef.current = false; 
-    setIsRunning(true); 
-    onTimerStart();
+    setIsRunning(true);
+    callbacksRef.current.onTimerStart();
+  };
+
+  // Continue a timer from a saved clock, e.g. after a reload
+  const restoreTimer = (clock: TimerClock) => {
+    if (clockRef.current) return;
+
+    clockRef.current = clock;
+    markSample();
+    timerEndedRef.current = false;
+    setReading(readClock(clock, Date.now()));
+    setIsPausedInternal(clock.pausedAt !== null);
+    setIsRunning(true);
+    callbacksRef.current.onTimerStart();
   };
 
   const pauseTimer = () => {
-    if (!isRunning || isPausedInternal) return;
-    pausedTimeRef.current = remainingMs;
+    if (!clockRef.current || isPausedInternal) return;
+    sample();
+    clockRef.current = pauseClock(clockRef.current, Date.now());
     setIsPausedInternal(true);
   };
 
   const resumeTimer = () => {
-    if (!isRunning || !isPausedInternal) return;
-    setRemainingMs(pausedTimeRef.current);
+    if (!clockRef.current || !isPausedInternal) return;
+    sample();
+    clockRef.current = resumeClock(clockRef.current, Date.now());
     setIsPausedInternal(false);
   };
 
-  const stopTimer = () => {
-    if (!isRunning) return;
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+  // Stops the timer and returns its final reading, so callers can record exact durations
+  const stopTimer = (): TimerReading | null => {
+    const finalReading = sample();
+    clockRef.current = null;
+    timerEndedRef.current = true;
     setIsRunning(false);
     setIsPausedInternal(false);
-    setRemainingMs(0);
-    setSessionDurationMs(0); // Reset internal duration
-    pausedTimeRef.current = 0;
-    timerEndedRef.current = true; 
+    setReading(IDLE_READING);
+    return finalReading;
   };
 
+  // Current clock, for checkpointing a live session
+  const getClock = () => clockRef.current;
+
   return {
-    isRunning, 
-    isPausedInternal, 
-    remainingMs,
+    isRunning,
+    isPausedInternal,
+    elapsedMs: reading.elapsedMs,
+    remainingMs: reading.remainingMs,
+    pausedMs: reading.pausedMs,
     startTimer,
+    restoreTimer,
     pauseTimer,
     resumeTimer,
     stopTimer,
+    getClock,
   };
-}; 
\ No newline at end of file
+};
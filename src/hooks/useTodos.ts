@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSetting, saveSetting, isTodoList, TodoItem, mergeTodos } from '../lib/storage';
+import { generateId } from '../types/history';
+
+/**
+ * The todo list, loaded from and saved to the settings store.
+ */
+export const useTodos = () => {
+  const [items, setItems] = useState<TodoItem[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load items from storage
+  useEffect(() => {
+    getSetting<unknown>('todo', [])
+      .then(savedItems => {
+        if (isTodoList(savedItems)) {
+          setItems(savedItems);
+        } else {
+          console.error('Ignoring invalid todo items:', savedItems);
+        }
+        setIsLoaded(true);
+      })
+      .catch(error => console.error('Failed to load todo items:', error));
+  }, []);
+
+  // Save items to storage whenever they change, once the saved ones are in
+  useEffect(() => {
+    if (isLoaded) {
+      saveSetting('todo', items);
+    }
+  }, [items, isLoaded]);
+
+  const addTodo = useCallback((text: string) => {
+    setItems(prev => [{ id: generateId(), text, done: false }, ...prev]);
+  }, []);
+
+  const toggleTodo = useCallback((id: string) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, done: !item.done } : item)));
+  }, []);
+
+  const deleteTodo = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  // Restored items go back at the end of the list
+  const restoreTodos = useCallback((restored: TodoItem[]) => {
+    setItems(prev => mergeTodos(prev, restored, 'merge'));
+  }, []);
+
+  return { items, addTodo, toggleTodo, deleteTodo, restoreTodos };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  TrashEntry,
+  TrashedItem,
+  getTrashId,
+  getSetting,
+  saveSetting,
+  loadTrash,
+  addToTrash,
+  removeFromTrash,
+  purgeTrash,
+} from '../lib/storage';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drops expired entries, then reads back what is left
+const loadUnexpiredTrash = async (retentionDays: number) => {
+  await purgeTrash(Date.now() - retentionDays * DAY_MS);
+  return loadTrash();
+};
+
+/**
+ * The trash bin: deleted items kept for a number of days so they can be
+ * restored. State mirrors the trash store and every change is written through.
+ */
+export const useTrash = () => {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDaysState] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  // Purge with the stored retention, not the default, so nothing expires early
+  useEffect(() => {
+    getSetting('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS)
+      .then(days => {
+        setRetentionDaysState(days);
+        return loadUnexpiredTrash(days);
+      })
+      .then(setEntries)
+      .catch(error => console.error('Failed to load trash:', error));
+  }, []);
+
+  const setRetentionDays = useCallback((days: number) => {
+    setRetentionDaysState(days);
+    saveSetting('trashRetentionDays', days);
+    loadUnexpiredTrash(days)
+      .then(setEntries)
+      .catch(error => console.error('Failed to purge trash:', error));
+  }, []);
+
+  const moveToTrash = useCallback((items: TrashedItem[]) => {
+    const deletedAt = Date.now();
+    const added: TrashEntry[] = items.map(trashed => ({ ...trashed, id: getTrashId(trashed), deletedAt }));
+    const addedIds = new Set(added.map(entry => entry.id));
+    setEntries(prev => [...added, ...prev.filter(entry => !addedIds.has(entry.id))]);
+    addToTrash(added).catch(error => console.error('Failed to move items to trash:', error));
+  }, []);
+
+  // Drops entries without restoring them; restoring is up to the caller
+  const discard = useCallback((ids: string[]) => {
+    const idSet = new Set(ids);
+    setEntries(prev => prev.filter(entry => !idSet.has(entry.id)));
+    removeFromTrash(ids).catch(error => console.error('Failed to update trash:', error));
+  }, []);
+
+  return { entries, retentionDays, setRetentionDays, moveToTrash, discard };
+};
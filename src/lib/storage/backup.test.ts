@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseBackup, diffHistory, applyHistoryImport, findReplacedItems, sessionsToCsv, BACKUP_FORMAT } from './backup';
+import { HistoryItem } from '../../types/history';
+
+const session = (id: string, timestamp: number, goal = 'Write'): HistoryItem => ({
+  type: 'session',
+  id,
+  timestamp,
+  duration: 60000,
+  goal,
+  distractions: 0,
+  distractionLog: [],
+});
+
+const bundleText = (history: unknown[]) =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: 1, exportedAt: 1, history, todos: [], notepad: '', settings: {} });
+
+describe('parseBackup', () => {
+  it('rejects files that are not backup bundles', () => {
+    expect(parseBackup('not json').ok).toBe(false);
+    expect(parseBackup(JSON.stringify({ history: [] })).ok).toBe(false);
+    expect(parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 99, history: [] })).ok).toBe(false);
+  });
+
+  it('skips invalid history records and counts them', () => {
+    const result = parseBackup(bundleText([session('a', 1), { type: 'session', id: 'b' }]));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.bundle.history).toHaveLength(1);
+      expect(result.value.skippedRecords).toBe(1);
+    }
+  });
+});
+
+describe('history import', () => {
+  const current = [session('b', 2), session('a', 1)];
+  const incoming = [session('c', 3), session('a', 1, 'Edited')];
+
+  it('previews merge and replace', () => {
+    expect(diffHistory(current, incoming, 'merge')).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 0 });
+    expect(diffHistory(current, incoming, 'replace').removed).toBe(1);
+  });
+
+  it('merges by id with the imported copy winning, newest first', () => {
+    const merged = applyHistoryImport(current, incoming, 'merge');
+    expect(merged.map(item => item.id)).toEqual(['c', 'b', 'a']);
+    expect(merged[2].type === 'session' && merged[2].goal).toBe('Edited');
+    expect(applyHistoryImport(current, incoming, 'replace').map(item => item.id)).toEqual(['c', 'a']);
+  });
+
+  it('finds the items a replace drops or overwrites', () => {
+    expect(findReplacedItems(current, incoming).map(item => item.id)).toEqual(['b', 'a']);
+    expect(findReplacedItems(current, [...current])).toEqual([]);
+  });
+});
+
+describe('sessionsToCsv', () => {
+  it('quotes commas and neutralises formulas', () => {
+    const csv = sessionsToCsv([session('a', 0, 'Fix bug, then test'), session('b', 1, '=SUM(A1)')]);
+    const lines = csv.split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('"Fix bug, then test"');
+    expect(lines[2]).toContain("'=SUM(A1)");
+  });
+});
@@ -0,0 +1,189 @@
+import { HistoryItem, SessionData } from '../../types/history';
+import { validateHistoryItem, isTodoList, TodoItem, ValidationResult } from './validation';
+
+export const BACKUP_FORMAT = 'deepwork-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * Everything the app stores, as one JSON document. Streak counters are
+ * included for reference only; on import they are recomputed from history.
+ */
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  history: HistoryItem[];
+  todos: TodoItem[];
+  notepad: string;
+  settings: Record<string, unknown>; // Setting values by storage key
+  streaks: { sessionStreak: number };
+}
+
+export interface ParsedBackup {
+  bundle: BackupBundle;
+  skippedRecords: number; // History records that failed validation
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface HistoryDiff {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number; // Only in replace mode: current items missing from the bundle
+}
+
+/**
+ * Parses and validates a backup file. Invalid history records are dropped
+ * and counted; anything else wrong with the bundle rejects it as a whole.
+ */
+export function parseBackup(text: string): ValidationResult<ParsedBackup> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, reason: 'File is not valid JSON' };
+  }
+
+  if (typeof raw !== 'object' || raw === null) return { ok: false, reason: 'File is not a backup bundle' };
+  const data = raw as Record<string, unknown>;
+  if (data.format !== BACKUP_FORMAT) return { ok: false, reason: 'File is not a backup bundle' };
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    return { ok: false, reason: `Unsupported backup version ${String(data.version)}` };
+  }
+  if (!Array.isArray(data.history)) return { ok: false, reason: 'Backup has no history list' };
+  if (data.todos !== undefined && !isTodoList(data.todos)) return { ok: false, reason: 'Backup todos are invalid' };
+
+  const history: HistoryItem[] = [];
+  let skippedRecords = 0;
+  data.history.forEach(item => {
+    const result = validateHistoryItem(item);
+    if (result.ok) {
+      history.push(result.value);
+    } else {
+      skippedRecords++;
+    }
+  });
+
+  const settings = typeof data.settings === 'object' && data.settings !== null
+    ? data.settings as Record<string, unknown>
+    : {};
+  const streaks = data.streaks as { sessionStreak?: unknown } | undefined;
+
+  return {
+    ok: true,
+    value: {
+      bundle: {
+        format: BACKUP_FORMAT,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+        history,
+        todos: (data.todos as TodoItem[] | undefined) ?? [],
+        notepad: typeof data.notepad === 'string' ? data.notepad : '',
+        settings,
+        streaks: { sessionStreak: typeof streaks?.sessionStreak === 'number' ? streaks.sessionStreak : 0 },
+      },
+      skippedRecords,
+    },
+  };
+}
+
+export function diffHistory(current: HistoryItem[], incoming: HistoryItem[], mode: ImportMode): HistoryDiff {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const incomingIds = new Set(incoming.map(item => item.id));
+  const diff: HistoryDiff = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+  incoming.forEach(item => {
+    const existing = currentById.get(item.id);
+    if (!existing) {
+      diff.added++;
+    } else if (JSON.stringify(existing) === JSON.stringify(item)) {
+      diff.unchanged++;
+    } else {
+      diff.updated++;
+    }
+  });
+  if (mode === 'replace') {
+    diff.removed = current.filter(item => !incomingIds.has(item.id)).length;
+  }
+  return diff;
+}
+
+const getItemTime = (item: HistoryItem) => (item.type === "session" ? item.timestamp : item.start);
+
+/**
+ * Merges by id, the imported copy winning on conflicts, or replaces outright.
+ * The result is newest first.
+ */
+export function applyHistoryImport(current: HistoryItem[], incoming: HistoryItem[], mode: ImportMode): HistoryItem[] {
+  const byId = new Map<string, HistoryItem>(mode === 'merge' ? current.map(item => [item.id, item]) : []);
+  incoming.forEach(item => byId.set(item.id, item));
+  return Array.from(byId.values()).sort((a, b) => getItemTime(b) - getItemTime(a));
+}
+
+/**
+ * Current items a replace import drops or overwrites with a different copy,
+ * so they can be moved to the trash first.
+ */
+export function findReplacedItems<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  return current.filter(item => {
+    const replacement = incomingById.get(item.id);
+    return !replacement || JSON.stringify(replacement) !== JSON.stringify(item);
+  });
+}
+
+export function mergeTodos(current: TodoItem[], incoming: TodoItem[], mode: ImportMode): TodoItem[] {
+  if (mode === 'replace') return incoming;
+  const currentIds = new Set(current.map(item => item.id));
+  return [...current, ...incoming.filter(item => !currentIds.has(item.id))];
+}
+
+export function mergeNotepad(current: string, incoming: string, mode: ImportMode): string {
+  if (mode === 'replace' || !current.trim()) return incoming;
+  if (!incoming.trim() || current.includes(incoming)) return current;
+  return `${current}\n\n${incoming}`;
+}
+
+const CSV_COLUMNS = [
+  'id', 'start', 'goal', 'project', 'tags', 'difficulty', 'durationMin', 'pausedMin', 'pauses',
+  'distractions', 'autoDistractions', 'posture', 'comment', 'partial', 'cycleId',
+];
+
+const escapeCsv = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '';
+  // Keep spreadsheets from evaluating free text such as goals as formulas
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toMinutes = (ms: number) => Math.round((ms / 60000) * 100) / 100;
+
+/**
+ * One row per session, oldest first, for spreadsheets.
+ */
+export function sessionsToCsv(history: HistoryItem[]): string {
+  const sessions = history
+    .filter((item): item is SessionData => item.type === "session")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const rows = sessions.map(session => [
+    session.id,
+    new Date(session.timestamp).toISOString(),
+    session.goal,
+    session.project,
+    session.tags?.join(' '),
+    session.difficulty,
+    toMinutes(session.duration),
+    toMinutes(session.pausedMs ?? 0),
+    session.pauses?.length ?? 0,
+    session.distractions,
+    session.autoDistractions?.length ?? 0,
+    session.posture,
+    session.comment,
+    session.partial ?? false,
+    session.cycleId,
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,74 @@
+import { MIGRATIONS } from './migrations';
+
+const DB_NAME = 'deepWorkPostureAI';
+
+// The IndexedDB version is the schema version: one step per migration
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export const STORES = {
+  history: 'history',
+  settings: 'settings',
+  quarantine: 'quarantine',
+  trash: 'trash',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database once per page, running any migrations the stored
+ * schema hasn't seen yet.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction;
+      if (!tx) return;
+      MIGRATIONS
+        .filter(migration => migration.version > event.oldVersion)
+        .forEach(migration => {
+          console.log(`[storage] Migrating to v${migration.version}: ${migration.description}`);
+          migration.upgrade(db, tx);
+        });
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; close so it isn't blocked
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('[storage] Upgrade blocked by another open tab');
+  });
+
+  // Allow a retry after a failed open
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
@@ -0,0 +1,368 @@
+import { HistoryItem } from '../../types/history';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+import { validateHistoryItem, isTodoList, TodoItem } from './validation';
+import { BackupBundle, BACKUP_FORMAT, BACKUP_VERSION } from './backup';
+import { normalizeStreakRules } from '../../utils/streak';
+import { sensitivityFromLegacyFactor } from '../../utils/postureDetect';
+
+export { SCHEMA_VERSION } from './db';
+export { validateHistoryItem, isTodoList } from './validation';
+export type { TodoItem, ValidationResult } from './validation';
+export { parseBackup, diffHistory, applyHistoryImport, findReplacedItems, mergeTodos, mergeNotepad, sessionsToCsv } from './backup';
+export type { BackupBundle, ParsedBackup, ImportMode, HistoryDiff } from './backup';
+
+// Settings keys kept in the settings store
+export type SettingKey =
+  | 'todo'
+  | 'notepad'
+  | 'warpMode'
+  | 'warpSpeed'
+  | 'lastDifficulty'
+  | 'dayStartHour'
+  | 'trashRetentionDays'
+  | 'achievements'
+  | 'pomodoroConfig'
+  | 'pauseReasons'
+  | 'distractionCategories'
+  | 'autoDistractionConfig'
+  | 'streakRules'
+  | 'dayStreakConfig'
+  | 'postureSmoothing'
+  | 'landmarkFilter'
+  | 'postureSensitivity'
+  | 'leanSensitivity'
+  | 'legacyImported';
+
+// A record that failed validation, kept aside instead of being dropped
+export interface QuarantinedRecord {
+  id?: number;
+  source: string; // Where the record was found, e.g. "history" or "localStorage:history"
+  record: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+// Something deleted from the app, kept in the trash until restored or expired
+export type TrashedItem =
+  | { kind: 'history'; item: HistoryItem }
+  | { kind: 'todo'; item: TodoItem };
+
+export type TrashEntry = TrashedItem & {
+  id: string; // See getTrashId
+  deletedAt: number;
+};
+
+// One entry per item, so deleting a restored item again replaces its old entry
+export const getTrashId = (trashed: TrashedItem) => `${trashed.kind}:${trashed.item.id}`;
+
+const readLegacyString = (key: string) => localStorage.getItem(key) ?? undefined;
+
+const readLegacyJson = (key: string): unknown => {
+  const raw = readLegacyString(key);
+  return raw === undefined ? undefined : JSON.parse(raw);
+};
+
+// Settings that were kept in localStorage, and how to read each one; undefined means nothing to import
+const LEGACY_SETTINGS: { key: SettingKey; read: () => unknown }[] = [
+  { key: 'todo', read: () => readLegacyJson('todo') },
+  { key: 'notepad', read: () => readLegacyString('notepad') },
+  { key: 'warpMode', read: () => readLegacyString('warpMode') },
+  {
+    key: 'warpSpeed',
+    read: () => {
+      const raw = readLegacyString('warpSpeed');
+      return raw === undefined ? undefined : parseFloat(raw);
+    },
+  },
+  { key: 'lastDifficulty', read: () => readLegacyString('lastDifficulty') },
+  { key: 'pomodoroConfig', read: () => readLegacyJson('pomodoroConfig') },
+  { key: 'pauseReasons', read: () => readLegacyJson('pauseReasons') },
+  { key: 'distractionCategories', read: () => readLegacyJson('distractionCategories') },
+  { key: 'autoDistractionConfig', read: () => readLegacyJson('autoDistractionConfig') },
+  {
+    key: 'streakRules',
+    // Counting time away toward the streak used to be an auto distraction setting
+    read: () => {
+      const autoDistractionConfig = readLegacyJson('autoDistractionConfig');
+      return autoDistractionConfig === undefined ? undefined : normalizeStreakRules(undefined, autoDistractionConfig);
+    },
+  },
+  {
+    key: 'postureSensitivity',
+    // Stored as a threshold factor before the percentage slider
+    read: () => {
+      const raw = readLegacyString('postureSensitivity');
+      const factor = raw === undefined ? NaN : parseFloat(raw);
+      return Number.isFinite(factor) ? sensitivityFromLegacyFactor(factor) : undefined;
+    },
+  },
+];
+
+let readyPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Copies the old localStorage data into IndexedDB. History is imported the
+ * first time the store is opened; each setting is imported while the store
+ * has no value for it yet, so settings moved over later are picked up too.
+ * The localStorage keys are left in place as a backup.
+ */
+async function importLegacyLocalStorage(db: IDBDatabase): Promise<void> {
+  const readStore = db.transaction(STORES.settings).objectStore(STORES.settings);
+  const [imported, storedKeys] = await Promise.all([
+    requestToPromise(readStore.get('legacyImported')),
+    requestToPromise(readStore.getAllKeys()),
+  ]);
+
+  const legacySettings: [SettingKey, unknown][] = [];
+  LEGACY_SETTINGS.forEach(({ key, read }) => {
+    if (storedKeys.includes(key)) return;
+    try {
+      const value = read();
+      if (value !== undefined) legacySettings.push([key, value]);
+    } catch (error) {
+      console.error(`[storage] Skipping unreadable legacy setting "${key}":`, error);
+    }
+  });
+  if (imported && legacySettings.length === 0) return;
+
+  const tx = db.transaction([STORES.history, STORES.settings, STORES.quarantine], 'readwrite');
+  const historyStore = tx.objectStore(STORES.history);
+  const settingsStore = tx.objectStore(STORES.settings);
+  const quarantineStore = tx.objectStore(STORES.quarantine);
+  const quarantine = (record: unknown, reason: string) => {
+    const entry: QuarantinedRecord = { source: 'localStorage:history', record, reason, quarantinedAt: Date.now() };
+    quarantineStore.add(entry);
+  };
+
+  const rawHistory = imported ? null : localStorage.getItem('history');
+  if (rawHistory) {
+    try {
+      const parsed = JSON.parse(rawHistory);
+      if (Array.isArray(parsed)) {
+        parsed.forEach(raw => {
+          const result = validateHistoryItem(raw);
+          if (result.ok) {
+            historyStore.put(result.value);
+          } else {
+            quarantine(raw, result.reason);
+          }
+        });
+      } else {
+        quarantine(rawHistory, 'history is not an array');
+      }
+    } catch (error) {
+      quarantine(rawHistory, `history is not valid JSON: ${error}`);
+    }
+  }
+
+  legacySettings.forEach(([key, value]) => settingsStore.put(value, key));
+  settingsStore.put(true, 'legacyImported');
+  await transactionDone(tx);
+  console.log(`[storage] Imported legacy localStorage data (${legacySettings.length} setting(s))`);
+}
+
+// Opens the database and runs the legacy import before any read or write
+function ready(): Promise<IDBDatabase> {
+  if (!readyPromise) {
+    readyPromise = openDatabase().then(async db => {
+      await importLegacyLocalStorage(db);
+      return db;
+    });
+    readyPromise.catch(() => { readyPromise = null; });
+  }
+  return readyPromise;
+}
+
+// Newest first, the order the rest of the app keeps history in
+const getItemTime = (item: HistoryItem) => (item.type === "session" ? item.timestamp : item.start);
+
+/**
+ * Loads all history, newest first. Records that fail validation are moved to
+ * the quarantine store so one bad entry can't take the whole history down.
+ */
+export async function loadHistory(): Promise<{ items: HistoryItem[]; quarantined: number }> {
+  const db = await ready();
+  const tx = db.transaction([STORES.history, STORES.quarantine], 'readwrite');
+  const historyStore = tx.objectStore(STORES.history);
+  const quarantineStore = tx.objectStore(STORES.quarantine);
+  const records = await requestToPromise(historyStore.getAll());
+
+  const items: HistoryItem[] = [];
+  let quarantined = 0;
+  records.forEach(raw => {
+    const result = validateHistoryItem(raw);
+    if (result.ok) {
+      items.push(result.value);
+      return;
+    }
+    quarantined++;
+    const entry: QuarantinedRecord = { source: STORES.history, record: raw, reason: result.reason, quarantinedAt: Date.now() };
+    quarantineStore.add(entry);
+    historyStore.delete(raw.id);
+  });
+
+  await transactionDone(tx);
+  if (quarantined > 0) {
+    console.warn(`[storage] Quarantined ${quarantined} invalid history record(s)`);
+  }
+  items.sort((a, b) => getItemTime(b) - getItemTime(a));
+  return { items, quarantined };
+}
+
+/**
+ * Replaces the stored history with the given items.
+ */
+export async function saveHistory(items: HistoryItem[]): Promise<void> {
+  const db = await ready();
+  const tx = db.transaction(STORES.history, 'readwrite');
+  const store = tx.objectStore(STORES.history);
+  store.clear();
+  items.forEach(item => store.put(item));
+  await transactionDone(tx);
+}
+
+export async function getSetting<T>(key: SettingKey, fallback: T): Promise<T> {
+  const db = await ready();
+  const value = await requestToPromise(db.transaction(STORES.settings).objectStore(STORES.settings).get(key));
+  return value === undefined ? fallback : value as T;
+}
+
+export async function setSetting<T>(key: SettingKey, value: T): Promise<void> {
+  const db = await ready();
+  const tx = db.transaction(STORES.settings, 'readwrite');
+  tx.objectStore(STORES.settings).put(value, key);
+  await transactionDone(tx);
+}
+
+// Fire-and-forget write for UI handlers; failures are only logged
+export function saveSetting<T>(key: SettingKey, value: T): void {
+  setSetting(key, value).catch(error => console.error(`[storage] Failed to save "${key}":`, error));
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const db = await ready();
+  return requestToPromise(db.transaction(STORES.quarantine).objectStore(STORES.quarantine).getAll());
+}
+
+/**
+ * Everything in the trash, most recently deleted first.
+ */
+export async function loadTrash(): Promise<TrashEntry[]> {
+  const db = await ready();
+  const entries: TrashEntry[] = await requestToPromise(db.transaction(STORES.trash).objectStore(STORES.trash).getAll());
+  return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+export async function addToTrash(entries: TrashEntry[]): Promise<void> {
+  const db = await ready();
+  const tx = db.transaction(STORES.trash, 'readwrite');
+  const store = tx.objectStore(STORES.trash);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+}
+
+export async function removeFromTrash(ids: string[]): Promise<void> {
+  const db = await ready();
+  const tx = db.transaction(STORES.trash, 'readwrite');
+  const store = tx.objectStore(STORES.trash);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+}
+
+/**
+ * Permanently deletes trash entries deleted before the given time.
+ */
+export async function purgeTrash(deletedBefore: number): Promise<void> {
+  const db = await ready();
+  const tx = db.transaction(STORES.trash, 'readwrite');
+  const store = tx.objectStore(STORES.trash);
+  const entries: TrashEntry[] = await requestToPromise(store.getAll());
+  entries
+    .filter(entry => entry.deletedAt < deletedBefore)
+    .forEach(entry => store.delete(entry.id));
+  await transactionDone(tx);
+}
+
+// Settings that still live in localStorage. Dark mode is read synchronously
+// on startup so the page doesn't flash in the wrong theme.
+const LOCAL_SETTING_KEYS = ['darkMode'];
+
+// Settings kept in the IndexedDB settings store
+const DB_SETTING_KEYS: SettingKey[] = [
+  'warpMode',
+  'warpSpeed',
+  'lastDifficulty',
+  'dayStartHour',
+  'trashRetentionDays',
+  'achievements',
+  'pomodoroConfig',
+  'pauseReasons',
+  'distractionCategories',
+  'autoDistractionConfig',
+  'streakRules',
+  'dayStreakConfig',
+  'postureSmoothing',
+  'landmarkFilter',
+  'postureSensitivity',
+  'leanSensitivity',
+];
+
+/**
+ * Collects everything into one backup bundle. History comes from the caller,
+ * which holds the latest copy in memory.
+ */
+export async function createBackup(history: HistoryItem[], sessionStreak: number): Promise<BackupBundle> {
+  const todos = await getSetting<unknown>('todo', []);
+  const notepad = await getSetting('notepad', '');
+
+  const settings: Record<string, unknown> = {};
+  for (const key of DB_SETTING_KEYS) {
+    const value = await getSetting<unknown>(key, undefined);
+    if (value !== undefined) settings[key] = value;
+  }
+  LOCAL_SETTING_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    history,
+    todos: isTodoList(todos) ? todos : [],
+    notepad: typeof notepad === 'string' ? notepad : '',
+    settings,
+    streaks: { sessionStreak },
+  };
+}
+
+/**
+ * Writes restored data back in a single transaction. Unknown setting keys in
+ * the bundle are ignored.
+ */
+export async function restoreBackup(data: {
+  history: HistoryItem[];
+  todos: TodoItem[];
+  notepad: string;
+  settings: Record<string, unknown>;
+}): Promise<void> {
+  const db = await ready();
+  const tx = db.transaction([STORES.history, STORES.settings], 'readwrite');
+  const historyStore = tx.objectStore(STORES.history);
+  const settingsStore = tx.objectStore(STORES.settings);
+
+  historyStore.clear();
+  data.history.forEach(item => historyStore.put(item));
+  settingsStore.put(data.todos, 'todo');
+  settingsStore.put(data.notepad, 'notepad');
+  DB_SETTING_KEYS.forEach(key => {
+    if (data.settings[key] !== undefined) settingsStore.put(data.settings[key], key);
+  });
+  await transactionDone(tx);
+
+  LOCAL_SETTING_KEYS.forEach(key => {
+    const value = data.settings[key];
+    if (typeof value === 'string') localStorage.setItem(key, value);
+  });
+}
@@ -0,0 +1,58 @@
+import { normalizeDistractionLog } from '../../utils/distractions';
+import { normalizeStreakRules } from '../../utils/streak';
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction; may create stores and rewrite records
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// Append only. Each entry bumps the schema version by one.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create history, settings and quarantine stores',
+    upgrade: (db) => {
+      db.createObjectStore('history', { keyPath: 'id' });
+      db.createObjectStore('settings');
+      db.createObjectStore('quarantine', { keyPath: 'id', autoIncrement: true });
+    },
+  },
+  {
+    version: 2,
+    description: 'Convert free-text distraction logs to event lists',
+    upgrade: (_db, tx) => {
+      const request = tx.objectStore('history').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const record = cursor.value;
+        if (record?.type === 'session' && !Array.isArray(record.distractionLog)) {
+          cursor.update({ ...record, distractionLog: normalizeDistractionLog(record.distractionLog) });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Create trash store',
+    upgrade: (db) => {
+      db.createObjectStore('trash', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Move the auto distraction streak opt-in into the streak rules',
+    upgrade: (_db, tx) => {
+      const settings = tx.objectStore('settings');
+      const request = settings.get('autoDistractionConfig');
+      request.onsuccess = () => {
+        if (request.result?.countTowardStreak === true) {
+          settings.put(normalizeStreakRules(undefined, request.result), 'streakRules');
+        }
+      };
+    },
+  },
+];
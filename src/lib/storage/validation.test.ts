@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { validateHistoryItem, isTodoList } from './validation';
+
+const session = {
+  type: 'session',
+  id: 'a1',
+  timestamp: 1700000000000,
+  duration: 1500000,
+  goal: 'Write report',
+  distractions: 1,
+};
+
+describe('validateHistoryItem', () => {
+  it('accepts sessions and breaks', () => {
+    expect(validateHistoryItem(session).ok).toBe(true);
+    expect(validateHistoryItem({ type: 'break', id: 'b1', start: 1, end: null, durationMs: 0, note: '' }).ok).toBe(true);
+  });
+
+  it('rejects records missing required fields, with a reason', () => {
+    const result = validateHistoryItem({ ...session, timestamp: 'yesterday' });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toMatch(/timestamp/);
+
+    expect(validateHistoryItem(null).ok).toBe(false);
+    expect(validateHistoryItem({ ...session, id: undefined }).ok).toBe(false);
+    expect(validateHistoryItem({ ...session, type: 'todo' }).ok).toBe(false);
+  });
+
+  it('repairs legacy optional fields instead of rejecting the record', () => {
+    const result = validateHistoryItem({ ...session, distractionLog: '', difficulty: 'extreme' });
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'session') {
+      expect(result.value.distractionLog).toEqual([]);
+      expect(result.value.difficulty).toBeUndefined();
+    }
+  });
+
+  it('repairs pause and auto distraction fields that other views iterate over', () => {
+    const result = validateHistoryItem({
+      ...session,
+      pauses: 'x',
+      autoDistractions: [{ offsetMs: 1000, awayMs: 60000, source: 'blur' }, { offsetMs: 'soon' }, null],
+      pausedMs: 'lots',
+    });
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'session') {
+      expect(result.value.pauses).toEqual([]);
+      expect(result.value.autoDistractions).toEqual([{ offsetMs: 1000, awayMs: 60000, source: 'blur' }]);
+      expect(result.value.pausedMs).toBeUndefined();
+    }
+
+    const pauses = validateHistoryItem({ ...session, pauses: [{ start: 5, end: 'later', reason: 'Stretch' }, { end: 9 }] });
+    expect(pauses.ok && pauses.value.type === 'session' && pauses.value.pauses).toEqual([{ start: 5, end: null, reason: 'Stretch' }]);
+  });
+
+  it('drops placeholder posture scores from sessions recorded before posture tracking', () => {
+    const legacy = validateHistoryItem({ ...session, posture: 74 });
+    expect(legacy.ok && legacy.value.type === 'session' && legacy.value.posture).toBeUndefined();
+
+    const tracked = validateHistoryItem({ ...session, posture: 74, postureTimeline: [[0, 'good'], [60000, 'bad']] });
+    expect(tracked.ok && tracked.value.type === 'session' && tracked.value.posture).toBe(74);
+  });
+});
+
+describe('isTodoList', () => {
+  it('checks every item', () => {
+    expect(isTodoList([{ id: '1', text: 'Ship it', done: false }])).toBe(true);
+    expect(isTodoList([{ id: '1', text: 'Ship it' }])).toBe(false);
+    expect(isTodoList('[]')).toBe(false);
+  });
+});
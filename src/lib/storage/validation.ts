@@ -0,0 +1,100 @@
+import { HistoryItem, SessionData, BreakData, Difficulty } from '../../types/history';
+import { normalizeDistractionLog } from '../../utils/distractions';
+import { normalizePostureTimeline } from '../../utils/postureTimeline';
+import { normalizePauses } from '../../utils/pauses';
+import { normalizeAutoDistractions } from '../../utils/autoDistractions';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function validateSession(raw: Record<string, unknown>): ValidationResult<SessionData> {
+  if (!isFiniteNumber(raw.timestamp)) return { ok: false, reason: 'session timestamp is not a number' };
+  if (!isFiniteNumber(raw.duration) || raw.duration < 0) return { ok: false, reason: 'session duration is invalid' };
+  if (typeof raw.goal !== 'string') return { ok: false, reason: 'session goal is not a string' };
+  if (!isFiniteNumber(raw.distractions) || raw.distractions < 0) return { ok: false, reason: 'session distractions is invalid' };
+
+  // Optional fields are repaired rather than rejected
+  const session = { ...raw, distractionLog: normalizeDistractionLog(raw.distractionLog) } as unknown as SessionData;
+  if (raw.pauses !== undefined) session.pauses = normalizePauses(raw.pauses);
+  if (raw.autoDistractions !== undefined) session.autoDistractions = normalizeAutoDistractions(raw.autoDistractions);
+  if (raw.pausedMs !== undefined && (!isFiniteNumber(raw.pausedMs) || raw.pausedMs < 0)) {
+    delete session.pausedMs;
+  }
+  if (raw.difficulty !== undefined && !DIFFICULTIES.includes(raw.difficulty as Difficulty)) {
+    delete session.difficulty;
+  }
+  if (raw.project !== undefined && (typeof raw.project !== 'string' || raw.project.trim() === '')) {
+    delete session.project;
+  }
+  if (raw.tags !== undefined) {
+    const tags = Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string' && tag !== '') : [];
+    if (tags.length > 0) {
+      session.tags = tags;
+    } else {
+      delete session.tags;
+    }
+  }
+  if (raw.postureTimeline !== undefined) {
+    const timeline = normalizePostureTimeline(raw.postureTimeline);
+    if (timeline) {
+      session.postureTimeline = timeline;
+    } else {
+      delete session.postureTimeline;
+    }
+  }
+  // Sessions from before posture tracking carry a random placeholder score
+  // and no timeline; that score must not count against streaks or stats
+  if (raw.posture !== undefined && (!isFiniteNumber(raw.posture) || !session.postureTimeline)) {
+    delete session.posture;
+  }
+  if (raw.postureNudges !== undefined) {
+    if (Array.isArray(raw.postureNudges)) {
+      session.postureNudges = raw.postureNudges.filter(isFiniteNumber);
+    } else {
+      delete session.postureNudges;
+    }
+  }
+  return { ok: true, value: session };
+}
+
+function validateBreak(raw: Record<string, unknown>): ValidationResult<BreakData> {
+  if (!isFiniteNumber(raw.start)) return { ok: false, reason: 'break start is not a number' };
+  if (raw.end !== null && !isFiniteNumber(raw.end)) return { ok: false, reason: 'break end is invalid' };
+  if (!isFiniteNumber(raw.durationMs)) return { ok: false, reason: 'break durationMs is not a number' };
+
+  const breakItem = { ...raw, note: typeof raw.note === 'string' ? raw.note : '' } as unknown as BreakData;
+  return { ok: true, value: breakItem };
+}
+
+/**
+ * Checks a stored history record at runtime. Records come from IndexedDB,
+ * old localStorage data or imported files, so none of them can be trusted.
+ */
+export function validateHistoryItem(raw: unknown): ValidationResult<HistoryItem> {
+  if (!isObject(raw)) return { ok: false, reason: 'record is not an object' };
+  if (typeof raw.id !== 'string' || raw.id === '') return { ok: false, reason: 'record has no id' };
+  if (raw.type === 'session') return validateSession(raw);
+  if (raw.type === 'break') return validateBreak(raw);
+  return { ok: false, reason: `unknown record type "${String(raw.type)}"` };
+}
+
+export interface TodoItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export function isTodoList(value: unknown): value is TodoItem[] {
+  return Array.isArray(value) && value.every(item =>
+    isObject(item) && typeof item.id === 'string' && typeof item.text === 'string' && typeof item.done === 'boolean'
+  );
+}
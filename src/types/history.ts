@@ -0,0 +1,72 @@
+// Unified history item types shared by the timer, summary and history views
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// A single pause within a session; end is null while the pause is ongoing
+export interface PauseInterval {
+  start: number;
+  end: number | null;
+  reason?: string;
+}
+
+// One logged distraction; offsetMs is focus time into the session when it happened
+export interface DistractionEvent {
+  offsetMs: number;
+  category?: string;
+}
+
+// Time away from the app noticed by the detector rather than logged by hand
+export interface AutoDistractionEvent {
+  offsetMs: number; // Focus time into the session when the user left
+  awayMs: number;
+  source: 'hidden' | 'blur'; // Tab hidden, or only the window lost focus
+}
+
+export type PostureTimelineState = 'good' | 'bad' | 'absent' | 'paused';
+
+// Posture state from offsetMs (wall-clock time since the session started) until the next change
+export type PostureChange = [offsetMs: number, state: PostureTimelineState];
+
+export interface SessionData {
+  type: "session";
+  id: string;
+  timestamp: number;
+  duration: number; // Focus time, excluding pauses
+  pausedMs?: number;
+  pauses?: PauseInterval[];
+  goal: string;
+  project?: string;
+  tags?: string[]; // Lowercase, without a leading #
+  posture?: number;
+  postureTimeline?: PostureChange[];
+  postureNudges?: number[]; // Wall-clock offsets of bad-posture nudges
+  distractions: number;
+  comment?: string;
+  difficulty?: Difficulty;
+  distractionLog?: DistractionEvent[];
+  autoDistractions?: AutoDistractionEvent[];
+  partial?: boolean; // Recovered from an interrupted tab instead of finished normally
+  endedEarly?: boolean; // Stopped before a timed session ran out
+  untimed?: boolean; // Run on the ∞ timer
+  cycleId?: string; // Pomodoro set this work block belongs to
+  cycleBlock?: number; // 1-based position of the block within its set
+}
+
+export interface BreakData {
+  type: "break";
+  id: string;
+  start: number;
+  end: number | null;
+  durationMs: number;
+  note: string;
+  cycleId?: string; // Pomodoro set this break belongs to
+  kind?: 'short' | 'long'; // Pomodoro break length, absent for untimed breaks
+  plannedMs?: number;
+}
+
+export type HistoryItem = SessionData | BreakData;
+
+// Generate a simple UUID for item IDs
+export const generateId = () => {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { findNewAchievements, AchievementContext } from './achievements';
+import { DEFAULT_DAY_STREAK_CONFIG } from './dayStreak';
+import { HistoryItem, SessionData } from '../types/history';
+
+// Local-time timestamps; 2025-01-13 is a Monday
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour).getTime();
+
+let nextId = 0;
+const session = (day: number, minutes: number, changes: Partial<SessionData> = {}): SessionData => ({
+  type: 'session',
+  id: `s${nextId++}`,
+  timestamp: at(day, 10),
+  duration: minutes * 60000,
+  goal: 'Write',
+  distractions: 0,
+  ...changes,
+});
+
+const context: AchievementContext = {
+  dayStartHour: 0,
+  dayStreakConfig: { ...DEFAULT_DAY_STREAK_CONFIG, freezeEveryDays: 0 },
+};
+
+const earned = (history: HistoryItem[]) => findNewAchievements(history, context, {}).map(achievement => achievement.id);
+
+describe('findNewAchievements', () => {
+  it('unlocks the first session, but not from a partial one', () => {
+    expect(earned([session(13, 25, { partial: true })])).toEqual([]);
+    expect(earned([session(13, 25)])).toEqual(['first-session']);
+  });
+
+  it('leaves out achievements that are already unlocked', () => {
+    expect(findNewAchievements([session(13, 25)], context, { 'first-session': at(13, 11) })).toEqual([]);
+  });
+
+  it('unlocks the focus-time milestones', () => {
+    expect(earned([session(13, 599)])).not.toContain('ten-hours');
+    expect(earned([session(13, 300), session(14, 300)])).toContain('ten-hours');
+    expect(earned([session(13, 6000)])).toEqual(expect.arrayContaining(['ten-hours', 'hundred-hours']));
+  });
+
+  it('needs ten hard sessions within a single week', () => {
+    const hard = (day: number) => session(day, 25, { difficulty: 'hard' });
+    const sameWeek = [13, 13, 14, 14, 15, 15, 16, 16, 17, 17].map(hard);
+    expect(earned(sameWeek)).toContain('hard-week');
+
+    const acrossWeeks = [13, 13, 14, 14, 15, 15, 16, 16, 17, 20].map(hard);
+    expect(earned(acrossWeeks)).not.toContain('hard-week');
+    expect(earned([...sameWeek.slice(0, 9), session(17, 25, { difficulty: 'medium' })])).not.toContain('hard-week');
+  });
+
+  it('needs a seven day streak', () => {
+    const days = [13, 14, 15, 16, 17, 18, 19];
+    expect(earned(days.slice(0, 6).map(day => session(day, 60)))).not.toContain('streak-week');
+    expect(earned(days.map(day => session(day, 60)))).toContain('streak-week');
+  });
+
+  describe('deep dive', () => {
+    it('needs over 90 undistracted minutes on the ∞ timer', () => {
+      expect(earned([session(13, 91, { untimed: true })])).toContain('deep-dive');
+      expect(earned([session(13, 90, { untimed: true })])).not.toContain('deep-dive');
+      expect(earned([session(13, 120, { untimed: true, distractions: 1 })])).not.toContain('deep-dive');
+    });
+
+    it('does not count timed sessions', () => {
+      expect(earned([session(13, 120)])).not.toContain('deep-dive');
+      expect(earned([session(13, 100.5, { endedEarly: true })])).not.toContain('deep-dive');
+      expect(earned([session(13, 100.5, { cycleId: 'c1' })])).not.toContain('deep-dive');
+    });
+
+    it('recognizes untimed sessions saved before they were flagged', () => {
+      expect(earned([session(13, 97.5)])).toContain('deep-dive');
+      // A timed session that ran out lands within a tick of the whole minute
+      expect(earned([session(13, 120 - 1 / 60)])).not.toContain('deep-dive');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { HistoryItem, SessionData } from '../types/history';
+import { getPeriodRange } from './analytics';
+import { computeDayStreak, DayStreakConfig } from './dayStreak';
+
+// Settings the checks depend on, supplied by the app
+export interface AchievementContext {
+  dayStartHour: number;
+  dayStreakConfig: DayStreakConfig;
+}
+
+/**
+ * An achievement is data plus one predicate over the whole history. Add new
+ * ones to ACHIEVEMENTS; ids are persisted, so never rename an existing one.
+ */
+export interface AchievementDefinition {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  isEarned: (sessions: SessionData[], context: AchievementContext) => boolean;
+}
+
+// Unlock time per achievement id
+export type UnlockedAchievements = Record<string, number>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const totalFocusMs = (sessions: SessionData[]) => sessions.reduce((sum, session) => sum + session.duration, 0);
+
+// Most sessions matching the predicate that fall in any single week
+const maxPerWeek = (sessions: SessionData[], dayStartHour: number, predicate: (session: SessionData) => boolean) => {
+  const counts = new Map<number, number>();
+  sessions.filter(predicate).forEach(session => {
+    const week = getPeriodRange('week', session.timestamp, dayStartHour).start;
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  });
+  return Math.max(0, ...counts.values());
+};
+
+// How far off a whole minute a timed session that ran out can end; the old timer stopped on a 1s tick
+const TIMED_END_TOLERANCE_MS = 3000;
+
+/**
+ * Whether a session ran on the ∞ timer. Sessions saved before the untimed
+ * flag existed are judged by their length: a timed session either ran out
+ * close to a whole minute, was marked as ended early, or was a pomodoro
+ * block. Old timed sessions stopped early before that mark existed can't be
+ * told apart and count as untimed.
+ */
+const isUntimed = (session: SessionData) => {
+  if (session.untimed) return true;
+  if (session.endedEarly || session.cycleId) return false;
+  const offMinute = session.duration % 60000;
+  return Math.min(offMinute, 60000 - offMinute) > TIMED_END_TOLERANCE_MS;
+};
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-session',
+    icon: '🌱',
+    title: 'First Step',
+    description: 'Finish your first focus session',
+    isEarned: sessions => sessions.length > 0,
+  },
+  {
+    id: 'ten-hours',
+    icon: '⏳',
+    title: 'Getting Serious',
+    description: 'Reach 10 hours of total focus',
+    isEarned: sessions => totalFocusMs(sessions) >= 10 * HOUR_MS,
+  },
+  {
+    id: 'hundred-hours',
+    icon: '💯',
+    title: 'Centurion',
+    description: 'Reach 100 hours of total focus',
+    isEarned: sessions => totalFocusMs(sessions) >= 100 * HOUR_MS,
+  },
+  {
+    id: 'hard-week',
+    icon: '🧠',
+    title: 'Heavy Lifter',
+    description: 'Finish 10 hard sessions in one week',
+    isEarned: (sessions, { dayStartHour }) =>
+      maxPerWeek(sessions, dayStartHour, session => session.difficulty === 'hard') >= 10,
+  },
+  {
+    id: 'streak-week',
+    icon: '📅',
+    title: 'Unbroken Week',
+    description: 'Keep a day streak going for 7 days',
+    isEarned: (sessions, { dayStartHour, dayStreakConfig }) =>
+      computeDayStreak(sessions, dayStreakConfig, dayStartHour).longest >= 7,
+  },
+  {
+    id: 'deep-dive',
+    icon: '🌊',
+    title: 'Deep Dive',
+    description: 'Go over 90 minutes on the ∞ timer with zero distractions',
+    isEarned: sessions => sessions.some(session =>
+      isUntimed(session) && session.distractions === 0 && session.duration > 90 * 60000
+    ),
+  },
+];
+
+/**
+ * Achievements the history now earns that haven't been unlocked before.
+ * Unlocks are kept even if the history that earned them is later deleted.
+ */
+export function findNewAchievements(
+  history: HistoryItem[],
+  context: AchievementContext,
+  unlocked: UnlockedAchievements
+): AchievementDefinition[] {
+  // Partial sessions were never finished, so they don't count toward milestones
+  const sessions = history.filter((item): item is SessionData => item.type === "session" && !item.partial);
+  return ACHIEVEMENTS.filter(achievement => !(achievement.id in unlocked) && achievement.isEarned(sessions, context));
+}
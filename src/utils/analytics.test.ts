@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getDayStart, getPeriodRange, computePeriodStats, computeProjectStats } from './analytics';
+import { NO_PROJECT } from './projects';
+import { HistoryItem } from '../types/history';
+
+// Local-time timestamps so the tests hold in any time zone
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 0, day, hour, minute).getTime();
+
+describe('day boundary', () => {
+  it('counts early-morning time toward the previous day', () => {
+    expect(getDayStart(at(15, 2), 4)).toBe(at(14, 4));
+    expect(getDayStart(at(15, 5), 4)).toBe(at(15, 4));
+    expect(getDayStart(at(15, 2), 0)).toBe(at(15, 0));
+  });
+
+  it('starts weeks on Monday at the boundary hour', () => {
+    // 2025-01-13 is a Monday
+    expect(getPeriodRange('week', at(15, 12), 4)).toEqual({ start: at(13, 4), end: at(20, 4) });
+    expect(getPeriodRange('week', at(13, 2), 4).start).toBe(at(6, 4));
+  });
+});
+
+describe('computePeriodStats', () => {
+  it('derives averages and rates from sessions and breaks in range', () => {
+    const history: HistoryItem[] = [
+      { type: 'break', id: 'b', start: at(15, 10, 30), end: at(15, 10, 45), durationMs: 15 * 60000, note: '' },
+      { type: 'session', id: 's2', timestamp: at(15, 10), duration: 30 * 60000, goal: 'B', distractions: 2 },
+      { type: 'session', id: 's1', timestamp: at(15, 9), duration: 30 * 60000, goal: 'A', distractions: 1 },
+      { type: 'session', id: 'old', timestamp: at(14, 9), duration: 60 * 60000, goal: 'C', distractions: 9 },
+    ];
+    const stats = computePeriodStats(history, at(15, 0), at(16, 0));
+    expect(stats.sessions).toBe(2);
+    expect(stats.focusMs).toBe(60 * 60000);
+    expect(stats.averageSessionMs).toBe(30 * 60000);
+    expect(stats.distractionsPerHour).toBe(3);
+    expect(stats.breakRatio).toBeCloseTo(0.2);
+  });
+});
+
+describe('computeProjectStats', () => {
+  it('totals focus, distraction rate and time-weighted posture per project', () => {
+    const history: HistoryItem[] = [
+      { type: 'session', id: 'a1', timestamp: at(15, 9), duration: 30 * 60000, goal: 'A', distractions: 1, project: 'Acme', posture: 90 },
+      { type: 'session', id: 'a2', timestamp: at(15, 10), duration: 90 * 60000, goal: 'A', distractions: 1, project: 'Acme', posture: 70 },
+      { type: 'session', id: 'x', timestamp: at(15, 11), duration: 20 * 60000, goal: 'X', distractions: 0 },
+    ];
+    const [acme, none] = computeProjectStats(history);
+    expect(acme).toEqual({ project: 'Acme', sessions: 2, focusMs: 120 * 60000, distractionsPerHour: 1, averagePosture: 75 });
+    expect(none.project).toBe(NO_PROJECT);
+    expect(none.averagePosture).toBeNull();
+  });
+});
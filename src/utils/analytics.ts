@@ -0,0 +1,148 @@
+import { addDays, startOfWeek, format } from 'date-fns';
+import { HistoryItem, SessionData, BreakData } from '../types/history';
+import { NO_PROJECT } from './projects';
+
+export type AnalyticsPeriod = 'day' | 'week';
+
+export interface PeriodStats {
+  focusMs: number;
+  breakMs: number;
+  sessions: number;
+  averageSessionMs: number;
+  distractionsPerHour: number;
+  breakRatio: number; // Break time as a share of focus + break time, 0..1
+}
+
+export interface ProjectStats {
+  project: string; // NO_PROJECT for sessions without one
+  sessions: number;
+  focusMs: number;
+  distractionsPerHour: number;
+  averagePosture: number | null; // Weighted by focus time; null when no session has a posture score
+}
+
+export interface DayStats extends PeriodStats {
+  dayStart: number; // Start of the day, boundary hour included
+  label: string; // Short weekday name
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Start of the "day" a timestamp belongs to, when days start at dayStartHour
+ * instead of midnight. At 4, a session at 02:00 counts toward the day before.
+ */
+export function getDayStart(timestamp: number, dayStartHour: number): number {
+  const day = new Date(timestamp - dayStartHour * HOUR_MS);
+  day.setHours(dayStartHour, 0, 0, 0);
+  return day.getTime();
+}
+
+/**
+ * [start, end) of the day or week (Monday first) containing `now`.
+ */
+export function getPeriodRange(period: AnalyticsPeriod, now: number, dayStartHour: number): { start: number; end: number } {
+  const dayStart = getDayStart(now, dayStartHour);
+  if (period === 'day') {
+    return { start: dayStart, end: addDays(dayStart, 1).getTime() };
+  }
+  // Weeks follow the shifted days, so Monday 02:00 still belongs to last week at a 4:00 boundary
+  const weekStart = startOfWeek(dayStart, { weekStartsOn: 1 });
+  weekStart.setHours(dayStartHour, 0, 0, 0);
+  return { start: weekStart.getTime(), end: addDays(weekStart, 7).getTime() };
+}
+
+// Breaks still running are counted up to now
+const getBreakMs = (item: BreakData, now: number) => (item.end === null ? now - item.start : item.durationMs);
+
+export function computePeriodStats(history: HistoryItem[], start: number, end: number, now: number = Date.now()): PeriodStats {
+  const sessions = history.filter((item): item is SessionData =>
+    item.type === "session" && item.timestamp >= start && item.timestamp < end
+  );
+  const breaks = history.filter((item): item is BreakData =>
+    item.type === "break" && item.start >= start && item.start < end
+  );
+
+  const focusMs = sessions.reduce((sum, session) => sum + session.duration, 0);
+  const breakMs = breaks.reduce((sum, item) => sum + getBreakMs(item, now), 0);
+  const distractions = sessions.reduce((sum, session) => sum + session.distractions, 0);
+
+  return {
+    focusMs,
+    breakMs,
+    sessions: sessions.length,
+    averageSessionMs: sessions.length > 0 ? focusMs / sessions.length : 0,
+    distractionsPerHour: focusMs > 0 ? distractions / (focusMs / HOUR_MS) : 0,
+    breakRatio: focusMs + breakMs > 0 ? breakMs / (focusMs + breakMs) : 0,
+  };
+}
+
+/**
+ * Per-day stats for every day in [start, end).
+ */
+export function computeDailyStats(history: HistoryItem[], start: number, end: number, now: number = Date.now()): DayStats[] {
+  const days: DayStats[] = [];
+  for (let dayStart = start; dayStart < end; dayStart = addDays(dayStart, 1).getTime()) {
+    const dayEnd = addDays(dayStart, 1).getTime();
+    days.push({
+      ...computePeriodStats(history, dayStart, dayEnd, now),
+      dayStart,
+      label: format(dayStart, 'EEE'),
+    });
+  }
+  return days;
+}
+
+// Wall-clock end of a session: focus time plus any time spent paused
+export const getSessionEnd = (session: SessionData): number =>
+  session.timestamp + session.duration + (session.pausedMs ?? 0);
+
+/**
+ * Focus time per day, keyed by day start.
+ */
+export function computeFocusByDay(history: HistoryItem[], dayStartHour: number): Map<number, number> {
+  const byDay = new Map<number, number>();
+  history.forEach(item => {
+    if (item.type !== "session") return;
+    const day = getDayStart(item.timestamp, dayStartHour);
+    byDay.set(day, (byDay.get(day) ?? 0) + item.duration);
+  });
+  return byDay;
+}
+
+// Upper bounds in minutes for heatmap levels 1-3; anything above is level 4
+const HEATMAP_LEVEL_MINUTES = [30, 60, 120];
+
+export function getHeatmapLevel(focusMs: number): number {
+  if (focusMs <= 0) return 0;
+  const minutes = focusMs / 60000;
+  const level = HEATMAP_LEVEL_MINUTES.findIndex(limit => minutes < limit);
+  return level === -1 ? 4 : level + 1;
+}
+
+/**
+ * Totals per project, most focus time first.
+ */
+export function computeProjectStats(history: HistoryItem[]): ProjectStats[] {
+  const byProject = new Map<string, SessionData[]>();
+  history.forEach(item => {
+    if (item.type !== "session") return;
+    const project = item.project ?? NO_PROJECT;
+    byProject.set(project, [...(byProject.get(project) ?? []), item]);
+  });
+
+  return Array.from(byProject, ([project, sessions]) => {
+    const focusMs = sessions.reduce((sum, session) => sum + session.duration, 0);
+    const distractions = sessions.reduce((sum, session) => sum + session.distractions, 0);
+    const scored = sessions.filter(session => session.posture !== undefined);
+    const scoredMs = scored.reduce((sum, session) => sum + session.duration, 0);
+    const postureSum = scored.reduce((sum, session) => sum + (session.posture ?? 0) * session.duration, 0);
+    return {
+      project,
+      sessions: sessions.length,
+      focusMs,
+      distractionsPerHour: focusMs > 0 ? distractions / (focusMs / HOUR_MS) : 0,
+      averagePosture: scoredMs > 0 ? Math.round(postureSum / scoredMs) : null,
+    };
+  }).sort((a, b) => b.focusMs - a.focusMs);
+}
@@ -0,0 +1,38 @@
+import { AutoDistractionEvent } from '../types/history';
+
+export interface AutoDistractionConfig {
+  enabled: boolean;
+  graceSeconds: number; // Time away that is still not counted
+}
+
+export const DEFAULT_AUTO_DISTRACTION_CONFIG: AutoDistractionConfig = {
+  enabled: false,
+  graceSeconds: 30,
+};
+
+export function normalizeAutoDistractionConfig(saved: unknown): AutoDistractionConfig {
+  const parsed = (saved ?? {}) as Partial<Record<keyof AutoDistractionConfig, unknown>>;
+  return {
+    enabled: parsed.enabled === true,
+    graceSeconds: typeof parsed.graceSeconds === 'number' && parsed.graceSeconds >= 0
+      ? parsed.graceSeconds
+      : DEFAULT_AUTO_DISTRACTION_CONFIG.graceSeconds,
+  };
+}
+
+/**
+ * Keeps only well-formed auto distraction events from stored data.
+ */
+export function normalizeAutoDistractions(events: unknown): AutoDistractionEvent[] {
+  if (!Array.isArray(events)) return [];
+  return events
+    .filter(event =>
+      typeof event?.offsetMs === 'number' && Number.isFinite(event.offsetMs) &&
+      typeof event.awayMs === 'number' && Number.isFinite(event.awayMs)
+    )
+    .map(event => ({ offsetMs: event.offsetMs, awayMs: event.awayMs, source: event.source === 'blur' ? 'blur' : 'hidden' }));
+}
+
+export function getTotalAwayMs(events: AutoDistractionEvent[]): number {
+  return events.reduce((sum, event) => sum + event.awayMs, 0);
+}
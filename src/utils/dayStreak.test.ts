@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { computeDayStreak, DEFAULT_DAY_STREAK_CONFIG, DayStreakConfig } from './dayStreak';
+import { HistoryItem } from '../types/history';
+
+// Local-time timestamps; 2025-01-13 is a Monday
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour).getTime();
+
+const focus = (day: number, minutes: number, hour = 10): HistoryItem => ({
+  type: 'session',
+  id: `s${day}-${hour}`,
+  timestamp: at(day, hour),
+  duration: minutes * 60000,
+  goal: 'Write',
+  distractions: 0,
+});
+
+const config = (changes: Partial<DayStreakConfig> = {}): DayStreakConfig => ({
+  ...DEFAULT_DAY_STREAK_CONFIG,
+  freezeEveryDays: 0,
+  ...changes,
+});
+
+describe('computeDayStreak', () => {
+  it('counts consecutive days that reach the target, today once it is met', () => {
+    const history = [focus(13, 60), focus(14, 30), focus(15, 60), focus(16, 60)];
+    expect(computeDayStreak(history, config(), 0, at(17, 12))).toMatchObject({ current: 2, longest: 2, todayMet: false });
+    expect(computeDayStreak([...history, focus(17, 60)], config(), 0, at(17, 12)).current).toBe(3);
+  });
+
+  it('moves late-night focus to the previous day at the day boundary', () => {
+    const history = [focus(13, 60), focus(15, 60, 2)];
+    expect(computeDayStreak(history, config(), 0, at(15, 12)).current).toBe(1);
+    expect(computeDayStreak(history, config(), 4, at(15, 12)).current).toBe(2);
+  });
+
+  it('skips rest days', () => {
+    // Saturday the 18th is a rest day
+    const history = [focus(17, 60), focus(19, 60)];
+    expect(computeDayStreak(history, config({ restDays: [6] }), 0, at(19, 12)).current).toBe(2);
+  });
+
+  it('spends an earned freeze on a missed day', () => {
+    const history = [focus(13, 60), focus(14, 60), focus(16, 60), focus(18, 60)];
+    const result = computeDayStreak(history, config({ freezeEveryDays: 2, maxFreezes: 1 }), 0, at(18, 12));
+    // The freeze earned on day two covers the 15th; the 17th breaks the streak
+    expect(result).toMatchObject({ current: 1, longest: 3, freezes: 0 });
+  });
+});
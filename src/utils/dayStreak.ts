@@ -0,0 +1,91 @@
+import { addDays } from 'date-fns';
+import { HistoryItem } from '../types/history';
+import { getDayStart, computeFocusByDay } from './analytics';
+
+export interface DayStreakConfig {
+  dailyTargetMinutes: number; // Focus time a day needs to count
+  restDays: number[]; // Weekdays (0 = Sunday) that neither count nor break the streak
+  freezeEveryDays: number; // Counted days per streak freeze earned; 0 turns freezes off
+  maxFreezes: number; // Freezes that can be banked at once
+}
+
+export const DEFAULT_DAY_STREAK_CONFIG: DayStreakConfig = {
+  dailyTargetMinutes: 60,
+  restDays: [],
+  freezeEveryDays: 7,
+  maxFreezes: 2,
+};
+
+export interface DayStreak {
+  current: number; // Counted days in the running streak, today included once the target is met
+  longest: number;
+  freezes: number; // Banked freezes; one is spent on each missed day
+  todayMet: boolean;
+}
+
+/**
+ * Walks every day from the first session up to today. A missed day that
+ * isn't a rest day uses up a freeze if there is one, otherwise the streak
+ * and its banked freezes are lost. Today never breaks the streak, since it
+ * isn't over yet.
+ */
+export function computeDayStreak(
+  history: HistoryItem[],
+  config: DayStreakConfig,
+  dayStartHour: number,
+  now: number = Date.now()
+): DayStreak {
+  const focusByDay = computeFocusByDay(history, dayStartHour);
+  const today = getDayStart(now, dayStartHour);
+  const targetMs = config.dailyTargetMinutes * 60000;
+  const isMet = (day: number) => {
+    const focusMs = focusByDay.get(day) ?? 0;
+    return focusMs > 0 && focusMs >= targetMs;
+  };
+
+  if (focusByDay.size === 0) return { current: 0, longest: 0, freezes: 0, todayMet: false };
+  const firstDay = Math.min(...focusByDay.keys());
+  let current = 0;
+  let longest = 0;
+  let freezes = 0;
+
+  for (let day = firstDay; day < today; day = getDayStart(addDays(day, 1).getTime(), dayStartHour)) {
+    if (isMet(day)) {
+      current++;
+      longest = Math.max(longest, current);
+      if (config.freezeEveryDays > 0 && current % config.freezeEveryDays === 0) {
+        freezes = Math.min(config.maxFreezes, freezes + 1);
+      }
+    } else if (config.restDays.includes(new Date(day).getDay())) {
+      continue;
+    } else if (current > 0 && freezes > 0) {
+      freezes--;
+    } else {
+      current = 0;
+      freezes = 0;
+    }
+  }
+
+  const todayMet = isMet(today);
+  if (todayMet) {
+    current++;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest, freezes, todayMet };
+}
+
+const isWeekdayList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+
+const toNonNegativeInt = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : fallback;
+
+export function normalizeDayStreakConfig(saved: unknown): DayStreakConfig {
+  const parsed = (saved ?? {}) as Partial<Record<keyof DayStreakConfig, unknown>>;
+  return {
+    dailyTargetMinutes: toNonNegativeInt(parsed.dailyTargetMinutes, DEFAULT_DAY_STREAK_CONFIG.dailyTargetMinutes),
+    restDays: isWeekdayList(parsed.restDays) ? parsed.restDays : DEFAULT_DAY_STREAK_CONFIG.restDays,
+    freezeEveryDays: toNonNegativeInt(parsed.freezeEveryDays, DEFAULT_DAY_STREAK_CONFIG.freezeEveryDays),
+    maxFreezes: toNonNegativeInt(parsed.maxFreezes, DEFAULT_DAY_STREAK_CONFIG.maxFreezes),
+  };
+}
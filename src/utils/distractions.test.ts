@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeDistractionLog, countByCategory, UNCATEGORIZED } from './distractions';
+
+describe('normalizeDistractionLog', () => {
+  it('keeps the focus-time offset and category of each event', () => {
+    expect(normalizeDistractionLog([{ offsetMs: 0 }, { offsetMs: 90000, category: 'Phone' }]))
+      .toEqual([{ offsetMs: 0 }, { offsetMs: 90000, category: 'Phone' }]);
+  });
+
+  it('drops events without a numeric offset', () => {
+    expect(normalizeDistractionLog([{ category: 'Phone' }, { offsetMs: '5' }, null, { offsetMs: 5 }]))
+      .toEqual([{ offsetMs: 5 }]);
+  });
+
+  it('reads the old free-text log as no events', () => {
+    expect(normalizeDistractionLog('')).toEqual([]);
+    expect(normalizeDistractionLog(undefined)).toEqual([]);
+  });
+
+  it('leaves out stray fields', () => {
+    expect(normalizeDistractionLog([{ offsetMs: 5, category: 3, note: 'x' }])).toEqual([{ offsetMs: 5 }]);
+  });
+});
+
+describe('countByCategory', () => {
+  it('counts per category, most frequent first, with uncategorized events grouped', () => {
+    expect(countByCategory([{ offsetMs: 0 }, { offsetMs: 1, category: 'Phone' }, { offsetMs: 2, category: 'Phone' }]))
+      .toEqual([{ category: 'Phone', count: 2 }, { category: UNCATEGORIZED, count: 1 }]);
+  });
+});
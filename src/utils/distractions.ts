@@ -0,0 +1,43 @@
+import { DistractionEvent } from '../types/history';
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+export const DEFAULT_DISTRACTION_CATEGORIES = [
+  'Phone',
+  'Chat',
+  'Email',
+  'Noise',
+  'Self-interrupt',
+];
+
+export function normalizeDistractionCategories(saved: unknown): string[] {
+  return Array.isArray(saved) && saved.every(category => typeof category === 'string')
+    ? saved
+    : DEFAULT_DISTRACTION_CATEGORIES;
+}
+
+/**
+ * Reads a stored distraction log. Older sessions stored a free-text string
+ * (always empty in practice), which carries no events.
+ */
+export function normalizeDistractionLog(log: unknown): DistractionEvent[] {
+  if (!Array.isArray(log)) return [];
+  return log
+    .filter(event => typeof event?.offsetMs === 'number')
+    .map(event => (typeof event.category === 'string'
+      ? { offsetMs: event.offsetMs, category: event.category }
+      : { offsetMs: event.offsetMs }));
+}
+
+/**
+ * Counts distractions per category, most frequent first.
+ */
+export function countByCategory(events: DistractionEvent[]): { category: string; count: number }[] {
+  const counts = new Map<string, number>();
+  events.forEach(event => {
+    const category = event.category ?? UNCATEGORIZED;
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  });
+  return Array.from(counts, ([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { editSession, mergeWithOlderSession, resolveEditedDuration, toEditMinutes } from './historyEdits';
+import { getTotalPausedMs } from './pauses';
+import { focusToWallOffset } from './postureTimeline';
+import { HistoryItem, SessionData } from '../types/history';
+
+const session: SessionData = {
+  type: "session",
+  id: 's1',
+  timestamp: 0,
+  duration: 25 * 60000 + 37000,
+  goal: 'Write',
+  distractions: 1,
+  difficulty: 'medium',
+};
+
+describe('resolveEditedDuration', () => {
+  it('keeps the stored duration when the minutes were not changed', () => {
+    expect(resolveEditedDuration(session.duration, toEditMinutes(session.duration))).toBe(session.duration);
+  });
+
+  it('uses the entered minutes once they were changed', () => {
+    expect(resolveEditedDuration(session.duration, 30)).toBe(30 * 60000);
+  });
+});
+
+describe('editSession', () => {
+  it('leaves the duration alone on a goal-only edit', () => {
+    const history: HistoryItem[] = [session];
+    const edited = editSession(history, 's1', {
+      goal: 'Write the intro',
+      duration: resolveEditedDuration(session.duration, toEditMinutes(session.duration)),
+      difficulty: 'medium',
+      comment: '',
+      distractions: 1,
+    });
+    expect(edited[0]).toMatchObject({ goal: 'Write the intro', duration: 25 * 60000 + 37000 });
+  });
+
+  it('adds uncategorized log entries when the count is raised', () => {
+    const logged: SessionData = { ...session, distractionLog: [{ offsetMs: 60000, category: 'Phone' }] };
+    const [edited] = editSession([logged], 's1', {
+      goal: 'Write',
+      duration: session.duration,
+      difficulty: 'medium',
+      comment: '',
+      distractions: 3,
+    }) as SessionData[];
+    expect(edited.distractionLog).toEqual([
+      { offsetMs: 60000, category: 'Phone' },
+      { offsetMs: session.duration },
+      { offsetMs: session.duration },
+    ]);
+  });
+});
+
+describe('mergeWithOlderSession', () => {
+  const minute = 60000;
+  const older: SessionData = {
+    type: "session",
+    id: 'older',
+    timestamp: 0,
+    duration: 20 * minute,
+    pausedMs: 5 * minute,
+    pauses: [{ start: 10 * minute, end: 15 * minute }],
+    goal: 'Write',
+    distractions: 1,
+    distractionLog: [{ offsetMs: 12 * minute }],
+    endedEarly: true,
+  };
+  // Starts 10 minutes after the older one ended at 25 minutes
+  const newer: SessionData = {
+    type: "session",
+    id: 'newer',
+    timestamp: 35 * minute,
+    duration: 10 * minute,
+    goal: 'Write',
+    distractions: 1,
+    distractionLog: [{ offsetMs: 4 * minute }],
+    untimed: true,
+  };
+  const [merged] = mergeWithOlderSession([newer, older], 'newer') as SessionData[];
+
+  it('records the gap as a pause that matches the paused time', () => {
+    expect(merged.pausedMs).toBe(15 * minute);
+    expect(getTotalPausedMs(merged.pauses ?? [])).toBe(merged.pausedMs);
+  });
+
+  it('places distractions at their real time', () => {
+    const offsets = (merged.distractionLog ?? []).map(event => focusToWallOffset(merged, event.offsetMs));
+    expect(offsets).toEqual([17 * minute, 39 * minute]);
+  });
+
+  it('derives the flags from both sessions', () => {
+    expect(merged.endedEarly).toBeUndefined();
+    expect(merged.untimed).toBeUndefined();
+    expect(merged.partial).toBeUndefined();
+  });
+});
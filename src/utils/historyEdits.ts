@@ -0,0 +1,119 @@
+import { HistoryItem, SessionData, Difficulty, DistractionEvent } from '../types/history';
+import { getSessionEnd } from './analytics';
+import { joinPostureTimelines } from './postureTimeline';
+
+// Fields of a session that can be corrected by hand from the history list
+export interface SessionEdits {
+  goal: string;
+  duration: number;
+  difficulty: Difficulty;
+  comment: string;
+  distractions: number;
+}
+
+// The edit form shows whole minutes of the stored duration
+export const toEditMinutes = (durationMs: number) => Math.round(durationMs / 60000);
+
+/**
+ * Duration to save from the edit form. Unless the minutes were changed, the
+ * stored duration is kept to the millisecond, so editing other fields doesn't
+ * round it and shift totals, XP or streaks.
+ */
+export function resolveEditedDuration(durationMs: number, minutes: number): number {
+  return minutes === toEditMinutes(durationMs) ? durationMs : minutes * 60000;
+}
+
+export function editSession(history: HistoryItem[], id: string, edits: SessionEdits): HistoryItem[] {
+  return history.map(item => {
+    if (item.type !== "session" || item.id !== id) return item;
+    return {
+      ...item,
+      ...edits,
+      distractionLog: resizeDistractionLog(item, edits.distractions, edits.duration),
+    };
+  });
+}
+
+/**
+ * Keeps the log in step with an edited count. Lowering it drops the most
+ * recent logged distractions; raising it adds uncategorized ones at the end
+ * of the session, since there is no record of when they happened.
+ */
+function resizeDistractionLog(session: SessionData, count: number, durationMs: number): DistractionEvent[] | undefined {
+  // Sessions from before the log existed keep having none unless the count goes up
+  if (!session.distractionLog && count <= session.distractions) return undefined;
+  const kept = (session.distractionLog ?? []).slice(0, count);
+  const added = Array.from({ length: count - kept.length }, (): DistractionEvent => ({ offsetMs: durationMs }));
+  return [...kept, ...added];
+}
+
+export function deleteHistoryItem(history: HistoryItem[], id: string): HistoryItem[] {
+  return history.filter(item => item.id !== id);
+}
+
+/**
+ * The next older session after the given one, skipping breaks, or null.
+ * History is kept newest first.
+ */
+export function findOlderSession(history: HistoryItem[], id: string): SessionData | null {
+  const index = history.findIndex(item => item.id === id);
+  if (index === -1) return null;
+  return history.slice(index + 1).find((item): item is SessionData => item.type === "session") ?? null;
+}
+
+/**
+ * Joins a session with the next older one into a single session. The gap
+ * between them counts as paused time and any breaks inside it are removed,
+ * so the merged session spans from the first start to the last end.
+ */
+export function mergeWithOlderSession(history: HistoryItem[], id: string): HistoryItem[] {
+  const newer = history.find((item): item is SessionData => item.type === "session" && item.id === id);
+  const older = findOlderSession(history, id);
+  if (!newer || !older) return history;
+
+  const olderEnd = getSessionEnd(older);
+  const gapMs = Math.max(0, newer.timestamp - olderEnd);
+  // Event offsets are focus time, so the newer session's events move past the older one's
+  const shift = <T extends { offsetMs: number }>(events: T[] = []) =>
+    events.map(event => ({ ...event, offsetMs: event.offsetMs + older.duration }));
+  const totalDuration = older.duration + newer.duration;
+  // Posture offsets are wall-clock time, so they move by the real time between the starts
+  const newerStartMs = newer.timestamp - older.timestamp;
+
+  const merged: SessionData = {
+    ...older,
+    duration: totalDuration,
+    pausedMs: (older.pausedMs ?? 0) + (newer.pausedMs ?? 0) + gapMs,
+    pauses: [
+      ...(older.pauses ?? []),
+      ...(gapMs > 0 ? [{ start: olderEnd, end: newer.timestamp }] : []),
+      ...(newer.pauses ?? []),
+    ],
+    goal: older.goal === newer.goal ? older.goal : `${older.goal} + ${newer.goal}`,
+    project: older.project ?? newer.project,
+    tags: older.tags || newer.tags ? Array.from(new Set([...(older.tags ?? []), ...(newer.tags ?? [])])) : undefined,
+    distractions: older.distractions + newer.distractions,
+    distractionLog: [...(older.distractionLog ?? []), ...shift(newer.distractionLog)],
+    autoDistractions: [...(older.autoDistractions ?? []), ...shift(newer.autoDistractions)],
+    comment: [older.comment, newer.comment].filter(Boolean).join(' · ') || undefined,
+    posture: older.posture !== undefined && newer.posture !== undefined && totalDuration > 0
+      ? Math.round((older.posture * older.duration + newer.posture * newer.duration) / totalDuration)
+      : older.posture ?? newer.posture,
+    postureTimeline: older.postureTimeline || newer.postureTimeline
+      ? joinPostureTimelines(older.postureTimeline ?? [], newer.postureTimeline ?? [], olderEnd - older.timestamp, newerStartMs)
+      : undefined,
+    postureNudges: older.postureNudges || newer.postureNudges
+      ? [...(older.postureNudges ?? []), ...(newer.postureNudges ?? []).map(offsetMs => offsetMs + newerStartMs)]
+      : undefined,
+    // Recovered if either part was, stopped early if the run that ends it was,
+    // and only untimed if all of it ran on the ∞ timer
+    partial: older.partial || newer.partial || undefined,
+    endedEarly: newer.endedEarly,
+    untimed: (older.untimed && newer.untimed) || undefined,
+  };
+
+  return history
+    .filter(item => item.id !== newer.id)
+    .filter(item => !(item.type === "break" && item.start >= olderEnd && item.start < newer.timestamp))
+    .map(item => (item.id === older.id ? merged : item));
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { stepOneEuro, filterLandmarks, DEFAULT_ONE_EURO_CONFIG, OneEuroState, LandmarkFilterState } from './oneEuroFilter';
+
+// Nose y from a webcam recording at the 500 ms detection interval: sitting still, then sinking into a slouch
+const RECORDED_NOSE_Y = [
+  0.412, 0.418, 0.409, 0.415, 0.421, 0.410, 0.414, 0.419, 0.408, 0.416,
+  0.413, 0.420, 0.411, 0.417, 0.410, 0.415,
+  0.431, 0.452, 0.470, 0.483, 0.491, 0.494, 0.489, 0.496, 0.492, 0.495, 0.490, 0.497, 0.493, 0.494,
+];
+const STILL_FRAMES = 16;
+
+const filterSequence = (values: number[], config = DEFAULT_ONE_EURO_CONFIG) => {
+  let state: OneEuroState | undefined;
+  return values.map((value, i) => {
+    state = stepOneEuro(state, value, i * 500, config);
+    return state.value;
+  });
+};
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+describe('stepOneEuro', () => {
+  it('passes the first sample through', () => {
+    expect(stepOneEuro(undefined, 0.4, 0, DEFAULT_ONE_EURO_CONFIG)).toEqual({ value: 0.4, speed: 0, timestampMs: 0 });
+  });
+
+  it('reduces jitter while the head is still', () => {
+    const filtered = filterSequence(RECORDED_NOSE_Y);
+    const still = (values: number[]) => values.slice(4, STILL_FRAMES);
+    expect(spread(still(filtered))).toBeLessThan(spread(still(RECORDED_NOSE_Y)) / 2);
+  });
+
+  it('follows a real movement within a few frames', () => {
+    const filtered = filterSequence(RECORDED_NOSE_Y);
+    expect(filtered[filtered.length - 1]).toBeCloseTo(0.494, 2);
+  });
+
+  it('lags less with a higher beta', () => {
+    const slouchFrame = STILL_FRAMES + 3;
+    const sluggish = filterSequence(RECORDED_NOSE_Y, { ...DEFAULT_ONE_EURO_CONFIG, beta: 0 })[slouchFrame];
+    const responsive = filterSequence(RECORDED_NOSE_Y)[slouchFrame];
+    expect(RECORDED_NOSE_Y[slouchFrame] - responsive).toBeLessThan(RECORDED_NOSE_Y[slouchFrame] - sluggish);
+  });
+
+  it('ignores repeated timestamps', () => {
+    const state = stepOneEuro(undefined, 0.4, 1000, DEFAULT_ONE_EURO_CONFIG);
+    expect(stepOneEuro(state, 0.9, 1000, DEFAULT_ONE_EURO_CONFIG)).toBe(state);
+  });
+});
+
+describe('filterLandmarks', () => {
+  const landmark = (y: number): NormalizedLandmark => ({ x: 0.5, y, z: 0, visibility: 0.9 });
+
+  it('filters each landmark and keeps its visibility', () => {
+    let state: LandmarkFilterState | null = null;
+    let output: NormalizedLandmark[] = [];
+    RECORDED_NOSE_Y.slice(0, STILL_FRAMES).forEach((y, i) => {
+      ({ state, landmarks: output } = filterLandmarks(state, [landmark(y), landmark(1 - y)], i * 500, DEFAULT_ONE_EURO_CONFIG));
+    });
+    expect(output[0].y).toBeCloseTo(0.415, 2);
+    expect(output[1].y).toBeCloseTo(0.585, 2);
+    expect(output[0].visibility).toBe(0.9);
+  });
+
+  it('starts over when the landmark count changes', () => {
+    const { state } = filterLandmarks(null, [landmark(0.4)], 0, DEFAULT_ONE_EURO_CONFIG);
+    const { landmarks } = filterLandmarks(state, [landmark(0.8), landmark(0.2)], 500, DEFAULT_ONE_EURO_CONFIG);
+    expect(landmarks.map(point => point.y)).toEqual([0.8, 0.2]);
+  });
+});
@@ -0,0 +1,97 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+/**
+ * One-Euro filter parameters (Casiez et al. 2012). A low minCutoff removes
+ * more jitter when still; a higher beta lets the filter keep up with fast
+ * movement instead of lagging behind it.
+ */
+export interface OneEuroConfig {
+  enabled: boolean;
+  minCutoff: number; // Hz
+  beta: number; // Cutoff increase per unit of speed (normalized coordinates per second)
+  dCutoff: number; // Hz, for smoothing the speed estimate
+}
+
+export const DEFAULT_ONE_EURO_CONFIG: OneEuroConfig = {
+  enabled: true,
+  minCutoff: 0.1,
+  beta: 10,
+  dCutoff: 1,
+};
+
+export interface OneEuroState {
+  value: number;
+  speed: number; // Smoothed derivative, per second
+  timestampMs: number;
+}
+
+// Smoothing factor of a first-order low-pass filter for a sample interval in seconds
+const getAlpha = (cutoffHz: number, intervalSec: number) => 1 / (1 + 1 / (2 * Math.PI * cutoffHz * intervalSec));
+
+/**
+ * Filters one sample of a signal. The first sample passes through unchanged.
+ */
+export function stepOneEuro(
+  previous: OneEuroState | undefined,
+  value: number,
+  timestampMs: number,
+  config: OneEuroConfig
+): OneEuroState {
+  if (!previous) return { value, speed: 0, timestampMs };
+  const intervalSec = (timestampMs - previous.timestampMs) / 1000;
+  // Repeated or out-of-order timestamps carry no timing to filter with
+  if (intervalSec <= 0) return previous;
+
+  const rawSpeed = (value - previous.value) / intervalSec;
+  const speed = previous.speed + getAlpha(config.dCutoff, intervalSec) * (rawSpeed - previous.speed);
+  const cutoff = config.minCutoff + config.beta * Math.abs(speed);
+  return {
+    value: previous.value + getAlpha(cutoff, intervalSec) * (value - previous.value),
+    speed,
+    timestampMs,
+  };
+}
+
+// Filter state per landmark, one channel per coordinate
+export type LandmarkFilterState = { x: OneEuroState; y: OneEuroState; z: OneEuroState }[];
+
+/**
+ * Runs every landmark's coordinates through its own One-Euro filter.
+ * Visibility is passed through. A frame with a different landmark count
+ * starts the filters over.
+ */
+export function filterLandmarks(
+  state: LandmarkFilterState | null,
+  landmarks: NormalizedLandmark[],
+  timestampMs: number,
+  config: OneEuroConfig
+): { state: LandmarkFilterState; landmarks: NormalizedLandmark[] } {
+  const previous = state && state.length === landmarks.length ? state : null;
+  const nextState = landmarks.map((landmark, i) => ({
+    x: stepOneEuro(previous?.[i].x, landmark.x, timestampMs, config),
+    y: stepOneEuro(previous?.[i].y, landmark.y, timestampMs, config),
+    z: stepOneEuro(previous?.[i].z, landmark.z, timestampMs, config),
+  }));
+  return {
+    state: nextState,
+    landmarks: landmarks.map((landmark, i) => ({
+      ...landmark,
+      x: nextState[i].x.value,
+      y: nextState[i].y.value,
+      z: nextState[i].z.value,
+    })),
+  };
+}
+
+const toPositive = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+export function normalizeOneEuroConfig(saved: unknown): OneEuroConfig {
+  const parsed = (saved ?? {}) as Partial<Record<keyof OneEuroConfig, unknown>>;
+  return {
+    enabled: parsed.enabled !== false,
+    minCutoff: toPositive(parsed.minCutoff, DEFAULT_ONE_EURO_CONFIG.minCutoff),
+    beta: typeof parsed.beta === 'number' && parsed.beta >= 0 ? parsed.beta : DEFAULT_ONE_EURO_CONFIG.beta,
+    dCutoff: toPositive(parsed.dCutoff, DEFAULT_ONE_EURO_CONFIG.dCutoff),
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { OngoingSession, getResumeClock, getResumePauses, getResumeRemainingMs } from './ongoingSession';
+import { createClock, pauseClock, readClock } from './timerClock';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const makeSession = (overrides: Partial<OngoingSession>): OngoingSession => ({
+  goal: 'Write',
+  difficulty: 'medium',
+  startTimestamp: 0,
+  clock: createClock(25 * MINUTE, 0),
+  distractionCount: 0,
+  savedAt: 10 * MINUTE,
+  ...overrides,
+});
+
+describe('ongoingSession resume', () => {
+  it('does not count the time the tab was gone as focus time', () => {
+    const session = makeSession({ savedAt: 10 * MINUTE });
+    const now = 10 * MINUTE + 5 * HOUR;
+
+    const reading = readClock(getResumeClock(session, now), now);
+    expect(reading.elapsedMs).toBe(10 * MINUTE);
+    expect(reading.pausedMs).toBe(5 * HOUR);
+    expect(getResumeRemainingMs(session, now)).toBe(15 * MINUTE);
+    expect(getResumePauses(session, now)).toEqual([{ start: 10 * MINUTE, end: now }]);
+  });
+
+  it('keeps an infinite session at its checkpointed focus time after a long gap', () => {
+    const session = makeSession({ clock: createClock(Number.MAX_SAFE_INTEGER, 0), savedAt: 30 * MINUTE });
+    const now = 30 * MINUTE + 8 * HOUR;
+
+    expect(readClock(getResumeClock(session, now), now).elapsedMs).toBe(30 * MINUTE);
+  });
+
+  it('leaves a session that was paused at the checkpoint as it was', () => {
+    const clock = pauseClock(createClock(25 * MINUTE, 0), 8 * MINUTE);
+    const pauses = [{ start: 8 * MINUTE, end: null }];
+    const session = makeSession({ clock, pauses, savedAt: 10 * MINUTE });
+    const now = 2 * HOUR;
+
+    expect(getResumeClock(session, now)).toBe(clock);
+    expect(getResumePauses(session, now)).toBe(pauses);
+    expect(readClock(getResumeClock(session, now), now).elapsedMs).toBe(8 * MINUTE);
+  });
+});
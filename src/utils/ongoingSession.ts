@@ -0,0 +1,98 @@
+import { Difficulty, DistractionEvent, AutoDistractionEvent, PauseInterval, PostureChange } from '../types/history';
+import { PostureTally } from './postureTally';
+import { TimerClock, readClock, pauseClock, resumeClock } from './timerClock';
+
+const ONGOING_KEY = 'ongoing';
+
+// How often the live session is written to localStorage
+export const ONGOING_CHECKPOINT_INTERVAL_MS = 5000;
+
+/**
+ * Snapshot of an in-progress focus session, checkpointed so that a reload
+ * or a crashed tab can pick the session up again.
+ */
+export interface OngoingSession {
+  goal: string;
+  project?: string;
+  tags?: string[];
+  difficulty: Difficulty;
+  startTimestamp: number;
+  clock: TimerClock;
+  distractionCount: number;
+  distractionLog?: DistractionEvent[];
+  autoDistractions?: AutoDistractionEvent[];
+  pauses?: PauseInterval[];
+  postureTally?: PostureTally;
+  postureTimeline?: PostureChange[];
+  postureNudges?: number[];
+  savedAt: number;
+}
+
+export function saveOngoingSession(session: Omit<OngoingSession, 'savedAt'>): void {
+  const record: OngoingSession = { ...session, savedAt: Date.now() };
+  localStorage.setItem(ONGOING_KEY, JSON.stringify(record));
+}
+
+/**
+ * Loads the checkpointed session, or null if there is none or it can't be read.
+ */
+export function loadOngoingSession(): OngoingSession | null {
+  const raw = localStorage.getItem(ONGOING_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (
+      typeof parsed?.startTimestamp !== 'number' ||
+      typeof parsed?.clock?.startedAt !== 'number' ||
+      typeof parsed?.clock?.durationMs !== 'number' ||
+      typeof parsed?.savedAt !== 'number'
+    ) {
+      console.warn('Discarding malformed ongoing session record');
+      localStorage.removeItem(ONGOING_KEY);
+      return null;
+    }
+    return parsed as OngoingSession;
+  } catch (error) {
+    console.error('Failed to parse ongoing session:', error);
+    localStorage.removeItem(ONGOING_KEY);
+    return null;
+  }
+}
+
+export function clearOngoingSession(): void {
+  localStorage.removeItem(ONGOING_KEY);
+}
+
+/**
+ * Focus time recorded up to the last checkpoint.
+ */
+export function getCheckpointElapsedMs(session: OngoingSession): number {
+  return readClock(session.clock, session.savedAt).elapsedMs;
+}
+
+/**
+ * The clock to continue from when the session is resumed now. The time the
+ * tab was gone is not focus time, so a session that was running at the last
+ * checkpoint is treated as paused from then until now.
+ */
+export function getResumeClock(session: OngoingSession, now: number = Date.now()): TimerClock {
+  if (session.clock.pausedAt !== null) return session.clock;
+  return resumeClock(pauseClock(session.clock, session.savedAt), now);
+}
+
+/**
+ * The session's pauses on resume, with the gap since the last checkpoint
+ * recorded as a pause to match getResumeClock.
+ */
+export function getResumePauses(session: OngoingSession, now: number = Date.now()): PauseInterval[] {
+  const pauses = session.pauses ?? [];
+  if (session.clock.pausedAt !== null || now <= session.savedAt) return pauses;
+  return [...pauses, { start: session.savedAt, end: now }];
+}
+
+/**
+ * Time left if the session is resumed now.
+ */
+export function getResumeRemainingMs(session: OngoingSession, now: number = Date.now()): number {
+  return readClock(getResumeClock(session, now), now).remainingMs;
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getTotalPausedMs, closePauses, countPauseReasons } from './pauses';
+import { PauseInterval } from '../types/history';
+
+const pauses: PauseInterval[] = [
+  { start: 1000, end: 4000, reason: 'Call' },
+  { start: 10000, end: null, reason: 'Call' },
+];
+
+describe('getTotalPausedMs', () => {
+  it('counts an open pause up to now', () => {
+    expect(getTotalPausedMs(pauses, 15000)).toBe(3000 + 5000);
+    expect(getTotalPausedMs(pauses.slice(0, 1), 15000)).toBe(3000);
+  });
+
+  it('ignores an open pause that starts after now', () => {
+    expect(getTotalPausedMs(pauses, 8000)).toBe(3000);
+  });
+});
+
+describe('closePauses', () => {
+  it('ends only the open pause', () => {
+    const closed = closePauses(pauses, 12000);
+    expect(closed).toEqual([pauses[0], { start: 10000, end: 12000, reason: 'Call' }]);
+    expect(getTotalPausedMs(closed, 99999)).toBe(5000);
+  });
+});
+
+describe('countPauseReasons', () => {
+  it('counts pauses per reason and leaves out those without one', () => {
+    expect(countPauseReasons([...pauses, { start: 20000, end: 21000 }, { start: 22000, end: 23000, reason: 'Coffee' }]))
+      .toEqual([{ reason: 'Call', count: 2 }, { reason: 'Coffee', count: 1 }]);
+  });
+});
@@ -0,0 +1,69 @@
+import { PauseInterval } from '../types/history';
+
+export const DEFAULT_PAUSE_REASONS = [
+  'Bathroom',
+  'Coffee / snack',
+  'Stretch',
+  'Someone interrupted',
+  'Phone call',
+  'Meeting',
+];
+
+export function normalizePauseReasons(saved: unknown): string[] {
+  return Array.isArray(saved) && saved.every(reason => typeof reason === 'string')
+    ? saved
+    : DEFAULT_PAUSE_REASONS;
+}
+
+/**
+ * Turns a stored pause list into valid intervals, dropping entries without a
+ * start time. Used when loading history that may predate pause tracking.
+ */
+export function normalizePauses(pauses: unknown): PauseInterval[] {
+  if (!Array.isArray(pauses)) return [];
+  return pauses
+    .filter(pause => typeof pause?.start === 'number' && Number.isFinite(pause.start))
+    .map(pause => {
+      const end = typeof pause.end === 'number' && Number.isFinite(pause.end) ? pause.end : null;
+      return typeof pause.reason === 'string'
+        ? { start: pause.start, end, reason: pause.reason }
+        : { start: pause.start, end };
+    });
+}
+
+/**
+ * Total paused time. A pause that is still open counts up to `now`.
+ */
+export function getTotalPausedMs(pauses: PauseInterval[], now: number = Date.now()): number {
+  return pauses.reduce((sum, pause) => sum + Math.max(0, (pause.end ?? now) - pause.start), 0);
+}
+
+/**
+ * Closes an open pause, if any, at the given time.
+ */
+export function closePauses(pauses: PauseInterval[], endTime: number): PauseInterval[] {
+  return pauses.map(pause => (pause.end === null ? { ...pause, end: endTime } : pause));
+}
+
+/**
+ * Counts pauses per reason, most frequent first. Pauses without a reason are left out.
+ */
+export function countPauseReasons(pauses: PauseInterval[]): { reason: string; count: number }[] {
+  const counts = new Map<string, number>();
+  pauses.forEach(pause => {
+    if (pause.reason) {
+      counts.set(pause.reason, (counts.get(pause.reason) ?? 0) + 1);
+    }
+  });
+  return Array.from(counts, ([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * One-line reason breakdown for display, e.g. "Coffee / snack ×2, Stretch".
+ */
+export function formatPauseReasons(pauses: PauseInterval[]): string {
+  return countPauseReasons(pauses)
+    .map(({ reason, count }) => (count > 1 ? `${reason} ×${count}` : reason))
+    .join(', ');
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getNextPhase, getPhaseDurationMs, DEFAULT_POMODORO_CONFIG, PomodoroCycle } from './pomodoro';
+
+const config = { ...DEFAULT_POMODORO_CONFIG, enabled: true, cycles: 3 };
+
+describe('getNextPhase', () => {
+  it('alternates work blocks with short breaks and ends the set with a long break', () => {
+    let cycle: PomodoroCycle | null = { id: 'c1', phase: 'work', block: 1, goal: 'Write' };
+    const phases: string[] = [];
+    while (cycle) {
+      phases.push(`${cycle.phase}:${cycle.block}`);
+      cycle = getNextPhase(cycle, config);
+    }
+    expect(phases).toEqual(['work:1', 'shortBreak:1', 'work:2', 'shortBreak:2', 'work:3', 'longBreak:3']);
+  });
+
+  it('keeps the set id and goal across phases', () => {
+    const next = getNextPhase({ id: 'c1', phase: 'shortBreak', block: 1, goal: 'Write' }, config);
+    expect(next).toEqual({ id: 'c1', phase: 'work', block: 2, goal: 'Write' });
+  });
+
+  it('goes straight to the long break when a set has one block', () => {
+    const next = getNextPhase({ id: 'c1', phase: 'work', block: 1, goal: '' }, { ...config, cycles: 1 });
+    expect(next?.phase).toBe('longBreak');
+  });
+});
+
+describe('getPhaseDurationMs', () => {
+  it('uses the configured minutes for each phase', () => {
+    expect(getPhaseDurationMs('work', config)).toBe(25 * 60000);
+    expect(getPhaseDurationMs('shortBreak', config)).toBe(5 * 60000);
+    expect(getPhaseDurationMs('longBreak', config)).toBe(15 * 60000);
+  });
+});
@@ -0,0 +1,67 @@
+export interface PomodoroConfig {
+  enabled: boolean; // Cycle mode on; otherwise sessions are single runs
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number; // Work blocks per set; the last one is followed by the long break
+  autoStartWork: boolean; // Start the next work block as soon as a break ends
+}
+
+export const DEFAULT_POMODORO_CONFIG: PomodoroConfig = {
+  enabled: false,
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+  autoStartWork: false,
+};
+
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak';
+
+// Position within a running pomodoro set
+export interface PomodoroCycle {
+  id: string; // Shared by every history item of the set
+  phase: PomodoroPhase;
+  block: number; // 1-based work block the phase belongs to
+  goal: string;
+}
+
+export function getPhaseDurationMs(phase: PomodoroPhase, config: PomodoroConfig): number {
+  const minutes = {
+    work: config.workMinutes,
+    shortBreak: config.shortBreakMinutes,
+    longBreak: config.longBreakMinutes,
+  }[phase];
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Returns the phase that follows the given one, or null once the long break
+ * closing the set is over. Work blocks alternate with short breaks and the
+ * final block is followed by a long break.
+ */
+export function getNextPhase(cycle: PomodoroCycle, config: PomodoroConfig): PomodoroCycle | null {
+  if (cycle.phase === 'work') {
+    const phase = cycle.block >= config.cycles ? 'longBreak' : 'shortBreak';
+    return { ...cycle, phase };
+  }
+  if (cycle.phase === 'shortBreak') {
+    return { ...cycle, phase: 'work', block: cycle.block + 1 };
+  }
+  return null;
+}
+
+const toPositiveInt = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : fallback;
+
+export function normalizePomodoroConfig(saved: unknown): PomodoroConfig {
+  const parsed = (saved ?? {}) as Partial<Record<keyof PomodoroConfig, unknown>>;
+  return {
+    enabled: parsed.enabled === true,
+    workMinutes: toPositiveInt(parsed.workMinutes, DEFAULT_POMODORO_CONFIG.workMinutes),
+    shortBreakMinutes: toPositiveInt(parsed.shortBreakMinutes, DEFAULT_POMODORO_CONFIG.shortBreakMinutes),
+    longBreakMinutes: toPositiveInt(parsed.longBreakMinutes, DEFAULT_POMODORO_CONFIG.longBreakMinutes),
+    cycles: toPositiveInt(parsed.cycles, DEFAULT_POMODORO_CONFIG.cycles),
+    autoStartWork: parsed.autoStartWork === true,
+  };
+}
@@ -1,31 +0,0 @@
-import { FilesetResolver, PoseLandmarker, PoseLandmarkerResult } from '@mediapipe/tasks-vision';
-
-let detector: PoseLandmarker;
-
-export async function loadDetector() {
-  const vision = await FilesetResolver.forVisionTasks(
-    'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision/wasm'
-  );
-
-  detector = await PoseLandmarker.createFromOptions(vision, {
-    baseOptions: {
-      modelAssetPath:
-        'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_full/float16/pose_landmarker_full.task',
-      delegate: 'GPU',
-    },
-    runningMode: 'VIDEO',
-    numPoses: 1,
-    minPoseDetectionConfidence: 0.5,
-    minPosePresenceConfidence: 0.5,
-    minTrackingConfidence: 0.5,
-  });
-
-  return detector;
-}
-
-export async function detectPose(video: HTMLVideoElement) {
-  if (!detector) throw new Error('Pose detector not loaded');
-  const now = Date.now();
-  const result = detector.detectForVideo(video, now);
-  return result;
-} 
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { computePostureAngles, compareAngles } from './poseMath';
+import { POSE_LANDMARKS } from './postureDetect';
+
+type Point = [x: number, y: number, z: number];
+
+// Upright seated pose facing the camera; hips in frame unless left out
+const pose = (changes: Partial<Record<keyof typeof POSE_LANDMARKS, Point>> = {}, hipVisibility = 0.9): NormalizedLandmark[] => {
+  const points: Partial<Record<keyof typeof POSE_LANDMARKS, Point>> = {
+    LEFT_EAR: [0.55, 0.4, 0],
+    RIGHT_EAR: [0.45, 0.4, 0],
+    LEFT_SHOULDER: [0.65, 0.6, 0],
+    RIGHT_SHOULDER: [0.35, 0.6, 0],
+    LEFT_HIP: [0.6, 0.9, 0],
+    RIGHT_HIP: [0.4, 0.9, 0],
+    ...changes,
+  };
+  const landmarks: NormalizedLandmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.5, z: 0, visibility: 1 }));
+  Object.entries(points).forEach(([name, [x, y, z]]) => {
+    const isHip = name.endsWith('_HIP');
+    landmarks[POSE_LANDMARKS[name as keyof typeof POSE_LANDMARKS]] = { x, y, z, visibility: isHip ? hipVisibility : 1 };
+  });
+  return landmarks;
+};
+
+describe('computePostureAngles', () => {
+  it('reads zero for an upright, level pose', () => {
+    const angles = computePostureAngles(pose())!;
+    Object.values(angles).forEach(angle => expect(angle).toBeCloseTo(0));
+  });
+
+  it('measures the neck pitching forward as the head comes toward the camera', () => {
+    const angles = computePostureAngles(pose({ LEFT_EAR: [0.55, 0.4, -0.2], RIGHT_EAR: [0.45, 0.4, -0.2] }))!;
+    expect(angles.neckPitch).toBeCloseTo(45);
+  });
+
+  it('measures head roll and shoulder slope in the image plane', () => {
+    const angles = computePostureAngles(pose({ LEFT_EAR: [0.55, 0.5, 0], LEFT_SHOULDER: [0.65, 0.6 + 0.3 * Math.tan(Math.PI / 36), 0] }))!;
+    expect(angles.headRoll).toBeCloseTo(45);
+    expect(angles.shoulderSlope).toBeCloseTo(5);
+  });
+
+  it('leaves the torso out when the hips are not visible', () => {
+    expect(computePostureAngles(pose({}, 0.1))!.torsoInclination).toBeNull();
+  });
+
+  it('gives no angles when an ear or shoulder is not visible', () => {
+    const occludedEar = pose();
+    occludedEar[POSE_LANDMARKS.LEFT_EAR] = { ...occludedEar[POSE_LANDMARKS.LEFT_EAR], visibility: 0.2 };
+    expect(computePostureAngles(occludedEar)).toBeNull();
+
+    const occludedShoulder = pose();
+    occludedShoulder[POSE_LANDMARKS.RIGHT_SHOULDER] = { ...occludedShoulder[POSE_LANDMARKS.RIGHT_SHOULDER], visibility: 0.2 };
+    expect(computePostureAngles(occludedShoulder)).toBeNull();
+  });
+});
+
+describe('compareAngles', () => {
+  it('reports the change since calibration', () => {
+    const baseline = computePostureAngles(pose({}, 0.1))!;
+    const current = computePostureAngles(pose({ LEFT_EAR: [0.55, 0.4, -0.2], RIGHT_EAR: [0.45, 0.4, -0.2] }))!;
+    const deltas = compareAngles(current, baseline);
+    expect(deltas.neckPitch).toBeCloseTo(45);
+    expect(deltas.torsoInclination).toBeNull();
+  });
+});
@@ -1,3 +1,6 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { POSE_LANDMARKS, MIN_VISIBILITY } from './postureDetect';
+
 // Vector math utilities for posture detection
 export interface Vector3D {
   x: number;
@@ -5,15 +8,6 @@ export interface Vector3D {
   z: number;
 }
 
-export type Landmark = {
-  x: number;
-  y: number;
-  z: number;
-  visibility?: number;
-};
-
-export type Landmarks = Landmark[];
-
 /**
  * Calculates the angle between two vectors in 3D space
  */
@@ -21,15 +15,15 @@ export function calculateAngle(a: Vector3D, b: Vector3D): number {
   const dotProduct = a.x * b.x + a.y * b.y + a.z * b.z;
   const magnitudeA = Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z);
   const magnitudeB = Math.sqrt(b.x * b.x + b.y * b.y + b.z * b.z);
-  
+
   // Prevent division by zero and handle precision errors
   if (magnitudeA === 0 || magnitudeB === 0) {
     return 0;
   }
-  
+
   // Make sure the value is in valid range for Math.acos
   const cosTheta = Math.max(-1, Math.min(1, dotProduct / (magnitudeA * magnitudeB)));
-  
+
   // Calculate the angle in radians, then convert to degrees
   return Math.acos(cosTheta) * (180 / Math.PI);
 }
@@ -47,60 +41,83 @@ export function calculateVector(a: Vector3D, b: Vector3D): Vector3D {
 
 /**
  * Calculates the pitch angle (forward/backward tilt) of a vector relative to the vertical
- * Positive values mean forward tilt, negative values mean backward tilt
+ * Positive values mean forward tilt (toward the camera), negative values mean backward tilt
  */
 export function calculatePitchAngle(vector: Vector3D): number {
   // Reference vertical vector (pointing down in image coordinates)
   const verticalVector = { x: 0, y: 1, z: 0 };
-  
+
   // Project the vector onto the y-z plane
   const projectedVector = { x: 0, y: vector.y, z: vector.z };
-  
-  // Calculate the angle
-  let angle = calculateAngle(verticalVector, projectedVector);
-  
-  // Determine the sign of the angle based on the z component
-  if (vector.z < 0) {
-    angle = -angle;
-  }
-  
-  return angle;
+
+  const angle = calculateAngle(verticalVector, projectedVector);
+  return vector.z < 0 ? -angle : angle;
 }
 
 /**
- * Calculates the roll angle (left/right tilt) of a vector
+ * Tilt of the line from a to b against the horizontal, in the image plane.
+ * Positive when b sits lower than a.
  */
-export function calculateRollAngle(vector: Vector3D): number {
-  // Reference vertical vector
-  const verticalVector = { x: 0, y: 1, z: 0 };
-  
-  // Project the vector onto the x-y plane
-  const projectedVector = { x: vector.x, y: vector.y, z: 0 };
-  
-  // Calculate the angle
-  let angle = calculateAngle(verticalVector, projectedVector);
-  
-  // Determine the sign of the angle based on the x component
-  if (vector.x > 0) {
-    angle = -angle;
-  }
-  
-  return angle;
+export function calculateTiltAngle(a: Vector3D, b: Vector3D): number {
+  return Math.atan2(b.y - a.y, Math.abs(b.x - a.x)) * (180 / Math.PI);
 }
 
+const midpoint = (a: Vector3D, b: Vector3D): Vector3D => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  z: (a.z + b.z) / 2,
+});
+
+// All angles in degrees
+export interface PostureAngles {
+  neckPitch: number; // Ears ahead of the shoulders; positive is head forward
+  headRoll: number; // Ear line against the horizontal; positive is the left ear lower
+  shoulderSlope: number; // Shoulder line against the horizontal; positive is the left shoulder lower
+  torsoInclination: number | null; // Hips to shoulders against the vertical; null with the hips out of frame
+}
+
+export type AngleDeltas = { [K in keyof PostureAngles]: number | null };
+
+const isVisible = (landmark: NormalizedLandmark | undefined): landmark is NormalizedLandmark =>
+  landmark !== undefined && (landmark.visibility ?? 0) >= MIN_VISIBILITY;
+
 /**
- * Normalizes a vector to have a magnitude of 1
+ * Angle metrics of a pose from tasks-vision landmarks, or null if the ears
+ * or shoulders are missing or not visible. Hips are often out of frame at a
+ * desk, so without them only the torso angle is left out.
  */
-export function normalizeVector(vector: Vector3D): Vector3D {
-  const magnitude = Math.sqrt(vector.x * vector.x + vector.y * vector.y + vector.z * vector.z);
-  
-  if (magnitude === 0) {
-    return { x: 0, y: 0, z: 0 };
-  }
-  
+export function computePostureAngles(landmarks: NormalizedLandmark[] | undefined): PostureAngles | null {
+  const leftEar = landmarks?.[POSE_LANDMARKS.LEFT_EAR];
+  const rightEar = landmarks?.[POSE_LANDMARKS.RIGHT_EAR];
+  const leftShoulder = landmarks?.[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks?.[POSE_LANDMARKS.RIGHT_SHOULDER];
+  if (!isVisible(leftEar) || !isVisible(rightEar) || !isVisible(leftShoulder) || !isVisible(rightShoulder)) return null;
+
+  const earMid = midpoint(leftEar, rightEar);
+  const shoulderMid = midpoint(leftShoulder, rightShoulder);
+  const leftHip = landmarks?.[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks?.[POSE_LANDMARKS.RIGHT_HIP];
+
   return {
-    x: vector.x / magnitude,
-    y: vector.y / magnitude,
-    z: vector.z / magnitude
+    // Pointing down from the ears, so a head in front of the shoulders tilts toward +z
+    neckPitch: calculatePitchAngle(calculateVector(earMid, shoulderMid)),
+    headRoll: calculateTiltAngle(rightEar, leftEar),
+    shoulderSlope: calculateTiltAngle(rightShoulder, leftShoulder),
+    torsoInclination: isVisible(leftHip) && isVisible(rightHip)
+      ? calculatePitchAngle(calculateVector(shoulderMid, midpoint(leftHip, rightHip)))
+      : null,
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Change of each metric since calibration; null where either side is missing.
+ */
+export function compareAngles(current: PostureAngles, baseline: PostureAngles): AngleDeltas {
+  const delta = (now: number | null, then: number | null) => (now === null || then === null ? null : now - then);
+  return {
+    neckPitch: delta(current.neckPitch, baseline.neckPitch),
+    headRoll: delta(current.headRoll, baseline.headRoll),
+    shoulderSlope: delta(current.shoulderSlope, baseline.shoulderSlope),
+    torsoInclination: delta(current.torsoInclination, baseline.torsoInclination),
+  };
+}
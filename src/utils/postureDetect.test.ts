@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { getBaselineMetrics, measureLean, measurePostureDeviation, POSE_LANDMARKS, BaselineMetrics } from './postureDetect';
+
+interface PoseOptions {
+  shiftX?: number;
+  faceScale?: number;
+  shoulderScale?: number;
+  noseZ?: number;
+  noseVisibility?: number;
+}
+
+// Seated pose facing the camera; face and shoulders scale about their centres
+const pose = ({ shiftX = 0, faceScale = 1, shoulderScale = 1, noseZ = -0.3, noseVisibility = 1 }: PoseOptions = {}): NormalizedLandmark[] => {
+  const landmarks: NormalizedLandmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.8, z: 0, visibility: 1 }));
+  const point = (x: number, y: number, z: number) => ({ x: x + shiftX, y, z, visibility: 1 });
+  landmarks[POSE_LANDMARKS.NOSE] = { ...point(0.5, 0.4, noseZ), visibility: noseVisibility };
+  landmarks[POSE_LANDMARKS.LEFT_EAR] = point(0.5 + 0.05 * faceScale, 0.4, -0.1);
+  landmarks[POSE_LANDMARKS.RIGHT_EAR] = point(0.5 - 0.05 * faceScale, 0.4, -0.1);
+  landmarks[POSE_LANDMARKS.LEFT_SHOULDER] = point(0.5 + 0.15 * shoulderScale, 0.6, 0);
+  landmarks[POSE_LANDMARKS.RIGHT_SHOULDER] = point(0.5 - 0.15 * shoulderScale, 0.6, 0);
+  return landmarks;
+};
+
+const baseline = getBaselineMetrics(pose()) as BaselineMetrics;
+
+// The head moving a fraction of a shoulder width (0.3 here) toward a camera
+// 1.5 shoulder widths away, shoulders staying put: the face grows by the
+// pinhole model and the nose z drops by the same distance on the x scale
+const forwardHead = (fraction: number, noseVisibility = 1) =>
+  pose({ faceScale: 1.5 / (1.5 - fraction), noseZ: -0.3 - fraction * 0.3, noseVisibility });
+
+describe('lean detection', () => {
+  it('reports leaning forward when the face grows and the nose comes in front of the shoulders', () => {
+    const deviation = measurePostureDeviation(pose({ faceScale: 1.15, shoulderScale: 1.05, noseZ: -0.35 }), baseline);
+    expect(deviation).toMatchObject({ message: 'Leaning forward!' });
+    expect(deviation!.ratio).toBeGreaterThan(1);
+  });
+
+  it('reports leaning back when the face shrinks and the nose drops behind', () => {
+    const deviation = measurePostureDeviation(pose({ faceScale: 0.85, shoulderScale: 0.95, noseZ: -0.25 }), baseline);
+    expect(deviation).toMatchObject({ message: 'Leaning back!' });
+  });
+
+  it('ignores small sideways shifts', () => {
+    const deviation = measurePostureDeviation(pose({ shiftX: 0.03 }), baseline);
+    expect(deviation).toMatchObject({ message: 'Posture OK!' });
+  });
+
+  it('follows a forward-head sequence with the size and depth cues on the same scale', () => {
+    const steps = [0, 0.05, 0.1, 0.15, 0.2, 0.25];
+    const withDepth = steps.map(f => measureLean(getBaselineMetrics(forwardHead(f))!, baseline));
+    const sizeOnly = steps.map(f => measureLean(getBaselineMetrics(forwardHead(f, 0.2))!, baseline));
+
+    withDepth.slice(1).forEach((lean, i) => expect(lean).toBeGreaterThan(withDepth[i]));
+    // Neither cue swamps the other: adding depth changes the reading by well under 2x
+    withDepth.slice(1).forEach((lean, i) => {
+      expect(lean / sizeOnly[i + 1]).toBeGreaterThan(1);
+      expect(lean / sizeOnly[i + 1]).toBeLessThan(2);
+    });
+
+    expect(measurePostureDeviation(forwardHead(0.05), baseline)!.message).toBe('Posture OK!');
+    expect(measurePostureDeviation(forwardHead(0.25), baseline)!.message).toBe('Leaning forward!');
+  });
+
+  it('only reads depth when the nose and shoulders are visible', () => {
+    expect(getBaselineMetrics(pose({ noseVisibility: 0.2 }))!.noseDepth).toBeNull();
+    // A guessed nose far in front of the shoulders doesn't count as leaning
+    expect(measurePostureDeviation(pose({ noseZ: -0.6, noseVisibility: 0.2 }), baseline)!.message).toBe('Posture OK!');
+  });
+
+  it('has its own sensitivity', () => {
+    const slightLean = pose({ faceScale: 1.06, shoulderScale: 1.02, noseZ: -0.32 });
+    expect(measurePostureDeviation(slightLean, baseline, 10, 5)!.message).toBe('Posture OK!');
+    expect(measurePostureDeviation(slightLean, baseline, 10, 30)!.message).toBe('Leaning forward!');
+  });
+});
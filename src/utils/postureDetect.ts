@@ -52,115 +52,182 @@ export function calculateAngle(
   return angle;
 }
 
-// Import or define BaselineMetrics interface here
-interface BaselineMetrics {
+// Landmarks below this visibility are guessed by the model rather than seen
+export const MIN_VISIBILITY = 0.5;
+
+const isVisible = (landmark: NormalizedLandmark) => (landmark.visibility ?? 0) >= MIN_VISIBILITY;
+
+// Reference pose captured at calibration, in normalized image coordinates
+export interface BaselineMetrics {
   noseY: number;
   noseX: number; 
-  earShoulderDistX: number; 
+  faceWidth: number; // Ear to ear; grows as the head comes toward the camera
+  shoulderWidth: number; // Grows as the upper body comes toward the camera
+  noseDepth: number | null; // Nose z relative to the shoulders; negative is in front. Null unless all three are visible
 }
 
-// Update function signature to accept BaselineMetrics
-export function isGoodPosture(
-  landmarks: NormalizedLandmark[],
-  baselineMetrics: BaselineMetrics | null | undefined, // Changed type here
-  sensitivityPercentage: number = 10 // New: Default value if not passed
-): { isGood: boolean; message: string } {
+const distance = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Metrics of the current pose that the checks compare against the baseline,
+ * or null if a landmark they need is missing. Widths and depth don't change
+ * when the whole body shifts sideways in the frame.
+ */
+export function getBaselineMetrics(landmarks: NormalizedLandmark[] | undefined): BaselineMetrics | null {
+  const nose = landmarks?.[POSE_LANDMARKS.NOSE];
+  const leftEar = landmarks?.[POSE_LANDMARKS.LEFT_EAR];
+  const rightEar = landmarks?.[POSE_LANDMARKS.RIGHT_EAR];
+  const leftShoulder = landmarks?.[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks?.[POSE_LANDMARKS.RIGHT_SHOULDER];
+  if (!nose?.x || !nose?.y || !leftEar || !rightEar || !leftShoulder || !rightShoulder) return null;
+  const faceWidth = distance(leftEar, rightEar);
+  const shoulderWidth = distance(leftShoulder, rightShoulder);
+  if (faceWidth === 0 || shoulderWidth === 0) return null;
+  return {
+    noseY: nose.y,
+    noseX: nose.x,
+    faceWidth,
+    shoulderWidth,
+    noseDepth: [nose, leftShoulder, rightShoulder].every(isVisible)
+      ? nose.z - (leftShoulder.z + rightShoulder.z) / 2
+      : null,
+  };
+}
 
-  // --- Reference App Thresholds (Reverted) ---
-  // const Y_NOSE_THRESHOLD = 0.06; 
-  // const X_NOSE_THRESHOLD = 0.06;
-  // const Y_EAR_TILT_THRESHOLD = 0.03; 
-  // EAR_SHOULDER_DIST_THRESHOLD is removed as lean check is commented out
-  // ---
-
-  // Check for required landmarks (Nose, Ears, Shoulders for lean check)
-  const requiredIndices = [0, 7, 8, 11, 12];
-  const maxRequiredIndex = Math.max(...requiredIndices);
-  if (!landmarks || landmarks.length <= maxRequiredIndex) {
-    return { isGood: false, message: "Key landmarks missing." }; 
-  }
+// MediaPipe gives z on roughly the same scale as x, and the shoulder line is
+// close to horizontal, so a depth change divided by the shoulder width is in
+// shoulder widths. Moving a distance d toward a camera D away makes things
+// look about d / D bigger; sitting at a desk, D is about 1.5 shoulder widths,
+// so depth in shoulder widths is scaled down by that to match the size cue.
+const DEPTH_TO_SIZE_SCALE = 1 / 1.5;
+
+// z is the noisiest coordinate, so the apparent size carries more weight
+const SIZE_CUE_WEIGHT = 0.6;
+const DEPTH_CUE_WEIGHT = 0.4;
+
+/**
+ * How far forward (positive) or back (negative) the head and shoulders are
+ * from the baseline, as a fraction of the camera distance. Weighs how much
+ * bigger the face and shoulders look against how far the nose has come in
+ * front of the shoulders; without a visible depth reading, size alone is used.
+ */
+export function measureLean(current: BaselineMetrics, baseline: BaselineMetrics): number {
+  const sizeLean = (current.faceWidth / baseline.faceWidth - 1 + current.shoulderWidth / baseline.shoulderWidth - 1) / 2;
+  if (current.noseDepth === null || baseline.noseDepth === null) return sizeLean;
+  const depthLean = ((baseline.noseDepth - current.noseDepth) / baseline.shoulderWidth) * DEPTH_TO_SIZE_SCALE;
+  return SIZE_CUE_WEIGHT * sizeLean + DEPTH_CUE_WEIGHT * depthLean;
+}
 
-  // Get current landmarks
-  const nose = landmarks[POSE_LANDMARKS.NOSE];
-  const leftEar = landmarks[POSE_LANDMARKS.LEFT_EAR];
-  const rightEar = landmarks[POSE_LANDMARKS.RIGHT_EAR];
-  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-  // const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER]; // Not strictly needed for current checks
-
-  // Check if all needed landmarks are valid
-  if (!nose?.x || !nose?.y || !leftEar?.x || !leftEar?.y || !rightEar?.y || !leftShoulder?.x /*|| !leftShoulder?.y || !rightShoulder?.y*/) {
-     console.warn("POSTURE CHECK: Missing required coordinate data.");
-     return { isGood: false, message: "Landmark data error!" }; 
-  }
+// Posture sensitivity on the 5-30% slider scale
+export const DEFAULT_POSTURE_SENSITIVITY = 10;
 
-  // If not calibrated (baselineMetrics is null/undefined), return neutral state
-  if (!baselineMetrics) {
-    return { isGood: true, message: "Calibrate to begin." }; 
+export function normalizePostureSensitivity(saved: unknown): number {
+  return typeof saved === 'number' && saved >= 5 && saved <= 30 ? saved : DEFAULT_POSTURE_SENSITIVITY;
+}
+
+/**
+ * The old setting scaled the default thresholds by a factor (0.5 for high
+ * through 2 for low). Thresholds grow with 35 minus the percentage, so the
+ * default 10% matches a factor of 1; factors beyond the range are clamped.
+ */
+export function sensitivityFromLegacyFactor(factor: number): number {
+  return Math.min(30, Math.max(5, Math.round(35 - 25 * factor)));
+}
+
+// Lean sensitivity on the 5-30% slider scale
+export const DEFAULT_LEAN_SENSITIVITY = 15;
+
+export function normalizeLeanSensitivity(saved: unknown): number {
+  return typeof saved === 'number' && saved >= 5 && saved <= 30 ? saved : DEFAULT_LEAN_SENSITIVITY;
+}
+
+export interface PostureDeviation {
+  ratio: number; // Largest deviation as a share of its threshold; above 1 is bad posture
+  message: string; // Describes the largest deviation
+}
+
+/**
+ * How far the pose has moved from the calibrated baseline, or null if the
+ * landmarks needed for the checks are missing. Lean has its own sensitivity
+ * on the same 5-30% scale.
+ */
+export function measurePostureDeviation(
+  landmarks: NormalizedLandmark[],
+  baselineMetrics: BaselineMetrics,
+  sensitivityPercentage: number = DEFAULT_POSTURE_SENSITIVITY,
+  leanSensitivityPercentage: number = DEFAULT_LEAN_SENSITIVITY
+): PostureDeviation | null {
+  const current = getBaselineMetrics(landmarks);
+  const leftEar = landmarks?.[POSE_LANDMARKS.LEFT_EAR];
+  const rightEar = landmarks?.[POSE_LANDMARKS.RIGHT_EAR];
+  if (!current || !leftEar?.y || !rightEar?.y) {
+     return null;
   }
 
-  // --- Perform Checks using Baseline Metrics & Dynamic Sensitivity --- 
-  // Original: const deviationFactor = sensitivityPercentage / 100;
-  // New logic: Slider value 5 (less sensitive) should mean a large deviation factor.
+  // --- Checks using Baseline Metrics & Dynamic Sensitivity --- 
+  // Slider value 5 (less sensitive) should mean a large deviation factor.
   // Slider value 30 (more sensitive) should mean a small deviation factor.
-  // Range of sensitivityPercentage is 5-30.
   const invertedSensitivity = (30 + 5) - sensitivityPercentage; // Max (30) becomes 5, Min (5) becomes 30.
   const deviationFactor = invertedSensitivity / 100; // Now, higher UI sensitivity setting -> smaller deviation factor.
 
   // 1. Vertical Nose Difference
-  // Threshold is a percentage of the baseline nose's Y position itself
-  // (or a fixed small absolute value if noseY is very small/large to prevent extreme thresholds)
-  const yNoseThreshold = Math.max(0.01, baselineMetrics.noseY * deviationFactor); // Min 1% deviation of baseline noseY
-  const yDiffValue = nose.y - baselineMetrics.noseY; // Positive if dropped, negative if raised
-
-  if (yDiffValue > yNoseThreshold) {
-    console.log(`POSTURE CHECK: Result -> BAD (Nose Y Drop: ${yDiffValue.toFixed(3)} > ${yNoseThreshold.toFixed(3)}) Sensitivity: ${sensitivityPercentage}%`);
-    return { isGood: false, message: "Vertical head position changed!" }; 
-  }
-  if (yDiffValue < -yNoseThreshold) { // Check for head raised too much
-    console.log(`POSTURE CHECK: Result -> BAD (Nose Y Raised: ${Math.abs(yDiffValue).toFixed(3)} > ${yNoseThreshold.toFixed(3)}) Sensitivity: ${sensitivityPercentage}%`);
-    return { isGood: false, message: "Vertical head position too high!" }; 
-  }
+  // Threshold is a percentage of the baseline nose's Y position itself, with a floor of 1%
+  const yNoseThreshold = Math.max(0.01, baselineMetrics.noseY * deviationFactor);
+  const yDiffValue = current.noseY - baselineMetrics.noseY; // Positive if dropped, negative if raised
 
   // 2. Horizontal Nose Difference
-  // Threshold as a percentage of a reference width, e.g., 20% of video width is max deviation at 100% sensitivity
-  const xNoseReference = 0.2; // Assume 20% of video width is a large deviation reference
-  const xNoseThreshold = xNoseReference * deviationFactor;
-  const xDiffValue = Math.abs(nose.x - baselineMetrics.noseX);
-  if (xDiffValue > xNoseThreshold) {
-    console.log(`POSTURE CHECK: Result -> BAD (Nose X Diff: ${xDiffValue.toFixed(3)} > ${xNoseThreshold.toFixed(3)}) Sensitivity: ${sensitivityPercentage}%`);
-    return { isGood: false, message: "Horizontal head position changed!" };
-  }
+  // 20% of video width is the max deviation at the least sensitive setting
+  const xNoseThreshold = 0.2 * deviationFactor;
+  const xDiffValue = Math.abs(current.noseX - baselineMetrics.noseX);
 
   // 3. Ear Tilt (Vertical Difference between ears)
-  // Threshold as a percentage of a reference height, e.g., 10% of video height for max tilt at 100% sensitivity
-  const yEarTiltReference = 0.1; // Max allowed tilt is 10% of video height reference
-  const yEarTiltThreshold = yEarTiltReference * deviationFactor;
+  // 10% of video height is the max tilt at the least sensitive setting
+  const yEarTiltThreshold = 0.1 * deviationFactor;
   const earDiffYValue = Math.abs(leftEar.y - rightEar.y);
-  if (earDiffYValue > yEarTiltThreshold) {
-    console.log(`POSTURE CHECK: Result -> BAD (Ear Y Diff: ${earDiffYValue.toFixed(3)} > ${yEarTiltThreshold.toFixed(3)}) Sensitivity: ${sensitivityPercentage}%`);
-    return { isGood: false, message: "Head tilted!" }; 
-  }
-      
-  /* // Temporarily COMMENT OUT Lean Check
-  const EAR_SHOULDER_DIST_THRESHOLD = 0.05; // Value from previous step, now ignored
-  const currentEarShoulderDistX = Math.abs(leftEar.x - leftShoulder.x); 
-  if (typeof baselineMetrics.earShoulderDistX === 'number') { 
-      if (Math.abs(currentEarShoulderDistX - baselineMetrics.earShoulderDistX) > EAR_SHOULDER_DIST_THRESHOLD) {
-           console.log(`POSTURE CHECK: BAD - Lean Fwd/Back (earShoulderDistX change ${Math.abs(currentEarShoulderDistX - baselineMetrics.earShoulderDistX).toFixed(3)} > ${EAR_SHOULDER_DIST_THRESHOLD})`);
-          const leanDirection = currentEarShoulderDistX < baselineMetrics.earShoulderDistX ? "forward" : "back";
-          return { isGood: false, message: `Leaning ${leanDirection}!` };
-      }
-  } else {
-       console.warn("POSTURE CHECK: Missing baseline earShoulderDistX for lean check.");
+
+  // 4. Forward/back lean
+  // A 15% change at the least sensitive setting down to 2.5% at the most
+  const leanThreshold = ((30 + 5) - leanSensitivityPercentage) / 200;
+  const lean = measureLean(current, baselineMetrics);
+
+  const deviations: PostureDeviation[] = [
+    {
+      ratio: Math.abs(yDiffValue) / yNoseThreshold,
+      message: yDiffValue > 0 ? "Vertical head position changed!" : "Vertical head position too high!",
+    },
+    { ratio: xDiffValue / xNoseThreshold, message: "Horizontal head position changed!" },
+    { ratio: earDiffYValue / yEarTiltThreshold, message: "Head tilted!" },
+    { ratio: Math.abs(lean) / leanThreshold, message: lean > 0 ? "Leaning forward!" : "Leaning back!" },
+  ];
+  const worst = deviations.reduce((max, deviation) => (deviation.ratio > max.ratio ? deviation : max));
+  return worst.ratio > 1 ? worst : { ratio: worst.ratio, message: "Posture OK!" };
+}
+
+/**
+ * Judges a single frame on its own. Live tracking runs these measurements
+ * through the posture stabilizer instead, so one noisy frame can't flip it.
+ */
+export function isGoodPosture(
+  landmarks: NormalizedLandmark[],
+  baselineMetrics: BaselineMetrics | null | undefined,
+  sensitivityPercentage: number = DEFAULT_POSTURE_SENSITIVITY,
+  leanSensitivityPercentage: number = DEFAULT_LEAN_SENSITIVITY
+): { isGood: boolean; message: string } {
+  // If not calibrated, return neutral state once the landmarks are there
+  if (!baselineMetrics) {
+    return getBaselineMetrics(landmarks)
+      ? { isGood: true, message: "Calibrate to begin." }
+      : { isGood: false, message: "Key landmarks missing." };
   }
-  */
 
-  // If Nose X/Y and Ear Tilt checks pass
-  console.log(`POSTURE CHECK: Result -> GOOD (Dynamic Thresholds) Sensitivity: ${sensitivityPercentage}%`);
-  return { isGood: true, message: "Posture OK!" };
+  const deviation = measurePostureDeviation(landmarks, baselineMetrics, sensitivityPercentage, leanSensitivityPercentage);
+  if (!deviation) {
+    return { isGood: false, message: "Key landmarks missing." };
+  }
+  return { isGood: deviation.ratio <= 1, message: deviation.message };
 }
 
-// Get the Y coordinate of the eye line for display purposes (Can likely be removed if not used elsewhere)
+// Get the Y coordinate of the eye line for display purposes
 export function getEyeLine(landmarks: NormalizedLandmark[]): number {
   const leftEye = landmarks[POSE_LANDMARKS.LEFT_EYE];
   const rightEye = landmarks[POSE_LANDMARKS.RIGHT_EYE];
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { stepPostureStabilizer, stepPostureAbsent, INITIAL_STABILIZER_STATE, DEFAULT_POSTURE_SMOOTHING, PostureStabilizerState } from './postureStabilizer';
+
+// Feeds one ratio per 500 ms frame, like the detection loop
+const run = (ratios: number[], state: PostureStabilizerState = INITIAL_STABILIZER_STATE, config = DEFAULT_POSTURE_SMOOTHING) =>
+  ratios.reduce((current, ratio, i) => stepPostureStabilizer(current, i * 500, ratio, config), state);
+
+describe('stepPostureStabilizer', () => {
+  it('ignores a single noisy frame', () => {
+    expect(run([0.2, 0.2, 3, 0.2, 0.2, 0.2, 0.2]).isGood).toBe(true);
+  });
+
+  it('turns bad only once the deviation has held for the dwell time', () => {
+    expect(run([2, 2, 2]).isGood).toBe(true);
+    expect(run([2, 2, 2, 2, 2]).isGood).toBe(false);
+  });
+
+  it('needs the deviation to drop below the exit threshold to recover', () => {
+    const bad = run([2, 2, 2, 2, 2]);
+    expect(bad.isGood).toBe(false);
+    const hovering = [2, 2, 2, 2, 2, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9];
+    expect(run(hovering).isGood).toBe(false);
+    const recovered = [2, 2, 2, 2, 2, 0.3, 0.3, 0.3, 0.3, 0.3, 0.3, 0.3, 0.3, 0.3];
+    expect(run(recovered).isGood).toBe(true);
+  });
+});
+
+describe('stepPostureAbsent', () => {
+  const config = DEFAULT_POSTURE_SMOOTHING;
+
+  it('keeps the settled state through a brief detection dropout', () => {
+    const bad = run([2, 2, 2, 2, 2]);
+    const dropout = stepPostureAbsent(bad, 2500, config);
+    expect(dropout.isAbsent).toBe(false);
+
+    const back = stepPostureStabilizer(dropout, 3000, 2, config);
+    expect(back.isGood).toBe(false);
+    expect(back.absentSince).toBeNull();
+  });
+
+  it('reports absence after the dwell time and starts over when someone appears', () => {
+    let state = run([2, 2, 2, 2, 2]);
+    [2500, 3000, 3500, 4000].forEach(timestampMs => { state = stepPostureAbsent(state, timestampMs, config); });
+    expect(state.isAbsent).toBe(true);
+
+    const back = stepPostureStabilizer(state, 4500, 0.2, config);
+    expect(back).toMatchObject({ isGood: true, isAbsent: false, absentSince: null });
+    expect(back.samples).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+export interface PostureSmoothingConfig {
+  windowMs: number; // Deviation is averaged over this much recent time
+  enterBadRatio: number; // Averaged deviation that turns good posture bad
+  exitBadRatio: number; // Averaged deviation bad posture has to drop below to turn good again
+  minDwellMs: number; // How long a new state has to hold before it's reported
+}
+
+export const DEFAULT_POSTURE_SMOOTHING: PostureSmoothingConfig = {
+  windowMs: 2000,
+  enterBadRatio: 1,
+  exitBadRatio: 0.8,
+  minDwellMs: 1500,
+};
+
+interface DeviationSample {
+  timestampMs: number;
+  ratio: number;
+}
+
+export interface PostureStabilizerState {
+  isGood: boolean; // The reported, settled state
+  samples: DeviationSample[]; // Inside the window, oldest first
+  pendingSince: number | null; // When the averaged deviation first crossed into the other state
+  absentSince: number | null; // Start of the current run of frames with no person in them
+  isAbsent: boolean; // Nobody has been seen for minDwellMs
+}
+
+export const INITIAL_STABILIZER_STATE: PostureStabilizerState = {
+  isGood: true,
+  samples: [],
+  pendingSince: null,
+  absentSince: null,
+  isAbsent: false,
+};
+
+const averageRatio = (samples: DeviationSample[]) =>
+  samples.reduce((sum, sample) => sum + sample.ratio, 0) / samples.length;
+
+/**
+ * Feeds one frame's deviation ratio (see measurePostureDeviation) into the
+ * stabilizer. The averaged deviation has to cross the enter or exit threshold
+ * and stay across it for minDwellMs before the state flips, so single noisy
+ * frames and brief fidgeting don't register. After a settled absence the
+ * stabilizer starts over.
+ */
+export function stepPostureStabilizer(
+  state: PostureStabilizerState,
+  timestampMs: number,
+  ratio: number,
+  config: PostureSmoothingConfig
+): PostureStabilizerState {
+  const current = state.isAbsent ? INITIAL_STABILIZER_STATE : { ...state, absentSince: null };
+  const samples = [...current.samples, { timestampMs, ratio }].filter(
+    sample => sample.timestampMs >= timestampMs - config.windowMs
+  );
+  const average = averageRatio(samples);
+  const wantsChange = current.isGood ? average > config.enterBadRatio : average < config.exitBadRatio;
+
+  if (!wantsChange) return { ...current, samples, pendingSince: null };
+  const pendingSince = current.pendingSince ?? timestampMs;
+  if (timestampMs - pendingSince < config.minDwellMs) return { ...current, samples, pendingSince };
+  return { ...current, isGood: !current.isGood, samples, pendingSince: null };
+}
+
+/**
+ * Records a frame with no person in it. A detection dropout shorter than
+ * minDwellMs keeps the last settled state; isAbsent turns true only once
+ * nobody has been seen for that long.
+ */
+export function stepPostureAbsent(
+  state: PostureStabilizerState,
+  timestampMs: number,
+  config: PostureSmoothingConfig
+): PostureStabilizerState {
+  const absentSince = state.absentSince ?? timestampMs;
+  return { ...state, absentSince, isAbsent: timestampMs - absentSince >= config.minDwellMs };
+}
+
+const toNonNegative = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+export function normalizePostureSmoothing(saved: unknown): PostureSmoothingConfig {
+  const parsed = (saved ?? {}) as Partial<Record<keyof PostureSmoothingConfig, unknown>>;
+  const enterBadRatio = toNonNegative(parsed.enterBadRatio, DEFAULT_POSTURE_SMOOTHING.enterBadRatio);
+  return {
+    windowMs: toNonNegative(parsed.windowMs, DEFAULT_POSTURE_SMOOTHING.windowMs),
+    enterBadRatio,
+    // The exit threshold above the enter one would make the state oscillate
+    exitBadRatio: Math.min(enterBadRatio, toNonNegative(parsed.exitBadRatio, DEFAULT_POSTURE_SMOOTHING.exitBadRatio)),
+    minDwellMs: toNonNegative(parsed.minDwellMs, DEFAULT_POSTURE_SMOOTHING.minDwellMs),
+  };
+}
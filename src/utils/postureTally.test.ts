@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { addPostureTime, getPostureSample, getPosturePercent, EMPTY_POSTURE_TALLY } from './postureTally';
+
+const tracked = { isDetecting: true, isCalibrated: true, hasPerson: true };
+
+describe('getPostureSample', () => {
+  it('only reads posture from a calibrated detector with a person in frame', () => {
+    expect(getPostureSample({ ...tracked, isGood: true })).toBe('good');
+    expect(getPostureSample({ ...tracked, isGood: false })).toBe('bad');
+    expect(getPostureSample({ ...tracked, isCalibrated: false, isGood: true })).toBe('untracked');
+    expect(getPostureSample({ ...tracked, hasPerson: false, isGood: true })).toBe('untracked');
+    expect(getPostureSample({ ...tracked, isDetecting: false, isGood: true })).toBe('untracked');
+  });
+});
+
+describe('posture tally', () => {
+  it('adds good and bad time and leaves untracked time out', () => {
+    let tally = EMPTY_POSTURE_TALLY;
+    tally = addPostureTime(tally, 'good', 3000);
+    tally = addPostureTime(tally, 'untracked', 5000);
+    tally = addPostureTime(tally, 'bad', 1000);
+    tally = addPostureTime(tally, 'good', 3000);
+    expect(tally).toEqual({ goodMs: 6000, badMs: 1000 });
+    expect(getPosturePercent(tally)).toBe(86);
+  });
+
+  it('has no percentage when posture was never tracked', () => {
+    expect(getPosturePercent(addPostureTime(EMPTY_POSTURE_TALLY, 'untracked', 5000))).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+// What the camera says about posture at a given moment
+export type PostureSample = 'good' | 'bad' | 'untracked';
+
+// Time spent in good and bad posture; untracked time is left out of both
+export interface PostureTally {
+  goodMs: number;
+  badMs: number;
+}
+
+export const EMPTY_POSTURE_TALLY: PostureTally = { goodMs: 0, badMs: 0 };
+
+/**
+ * Only a calibrated detector with a person in frame gives a usable reading.
+ */
+export function getPostureSample(state: {
+  isDetecting: boolean;
+  isCalibrated: boolean;
+  hasPerson: boolean;
+  isGood: boolean;
+}): PostureSample {
+  if (!state.isDetecting || !state.isCalibrated || !state.hasPerson) return 'untracked';
+  return state.isGood ? 'good' : 'bad';
+}
+
+export function addPostureTime(tally: PostureTally, sample: PostureSample, ms: number): PostureTally {
+  if (sample === 'good') return { ...tally, goodMs: tally.goodMs + ms };
+  if (sample === 'bad') return { ...tally, badMs: tally.badMs + ms };
+  return tally;
+}
+
+/**
+ * Share of tracked time in good posture, 0-100, or undefined when posture
+ * was never tracked during the session.
+ */
+export function getPosturePercent(tally: PostureTally): number | undefined {
+  const trackedMs = tally.goodMs + tally.badMs;
+  return trackedMs > 0 ? Math.round((tally.goodMs / trackedMs) * 100) : undefined;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { appendPostureChange, focusToWallOffset, joinPostureTimelines } from './postureTimeline';
+import { PostureChange } from '../types/history';
+
+describe('appendPostureChange', () => {
+  it('only records changes of state', () => {
+    let timeline: PostureChange[] = [];
+    timeline = appendPostureChange(timeline, 0, 'good');
+    timeline = appendPostureChange(timeline, 4000, 'good');
+    timeline = appendPostureChange(timeline, 6200, 'bad');
+    expect(timeline).toEqual([[0, 'good'], [6000, 'bad']]);
+  });
+
+  it('collapses flicker within the same second', () => {
+    const timeline: PostureChange[] = [[0, 'good'], [6000, 'bad']];
+    expect(appendPostureChange(timeline, 6300, 'absent')).toEqual([[0, 'good'], [6000, 'absent']]);
+    expect(appendPostureChange(timeline, 6300, 'good')).toEqual([[0, 'good']]);
+  });
+});
+
+describe('focusToWallOffset', () => {
+  it('adds the pauses that started before the focus offset', () => {
+    const session = { timestamp: 0, pauses: [{ start: 60000, end: 90000 }, { start: 200000, end: 260000 }] };
+    expect(focusToWallOffset(session, 30000)).toBe(30000);
+    expect(focusToWallOffset(session, 120000)).toBe(150000);
+    expect(focusToWallOffset(session, 300000)).toBe(390000);
+  });
+});
+
+describe('joinPostureTimelines', () => {
+  it('shows the gap as paused and shifts the later timeline', () => {
+    expect(joinPostureTimelines([[0, 'good']], [[0, 'bad'], [5000, 'good']], 60000, 90000))
+      .toEqual([[0, 'good'], [60000, 'paused'], [90000, 'bad'], [95000, 'good']]);
+  });
+});
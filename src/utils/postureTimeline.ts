@@ -0,0 +1,81 @@
+import { PostureChange, PostureTimelineState, SessionData } from '../types/history';
+import { PostureSample } from './postureTally';
+
+// Changes are kept to the second, which keeps a flickering detector from bloating the record
+const RESOLUTION_MS = 1000;
+
+export function toTimelineState(sample: PostureSample, isPaused: boolean): PostureTimelineState {
+  if (isPaused) return 'paused';
+  return sample === 'untracked' ? 'absent' : sample;
+}
+
+/**
+ * Records a state change. Changes within the same second collapse into the
+ * last one, and a change back to the previous state merges the entries.
+ */
+export function appendPostureChange(timeline: PostureChange[], offsetMs: number, state: PostureTimelineState): PostureChange[] {
+  const offset = Math.max(0, Math.round(offsetMs / RESOLUTION_MS) * RESOLUTION_MS);
+  const last = timeline[timeline.length - 1];
+  if (last && last[1] === state) return timeline;
+  if (last && last[0] === offset) {
+    const previous = timeline[timeline.length - 2];
+    // Dropping the flicker may leave the previous entry already in this state
+    return previous && previous[1] === state ? timeline.slice(0, -1) : [...timeline.slice(0, -1), [offset, state]];
+  }
+  return [...timeline, [offset, state]];
+}
+
+export interface PostureSegment {
+  state: PostureTimelineState;
+  startMs: number;
+  endMs: number;
+}
+
+export function getPostureSegments(timeline: PostureChange[], totalMs: number): PostureSegment[] {
+  return timeline
+    .map(([startMs, state], i) => ({ state, startMs, endMs: Math.min(timeline[i + 1]?.[0] ?? totalMs, totalMs) }))
+    .filter(segment => segment.endMs > segment.startMs);
+}
+
+/**
+ * Converts a focus-time offset, which excludes pauses, to wall-clock time
+ * since the session started, so it lines up with the posture timeline.
+ */
+export function focusToWallOffset(session: Pick<SessionData, 'timestamp' | 'pauses'>, focusOffsetMs: number): number {
+  let offset = focusOffsetMs;
+  const pauses = [...(session.pauses ?? [])].sort((a, b) => a.start - b.start);
+  for (const pause of pauses) {
+    if (pause.start - session.timestamp > offset) break;
+    offset += (pause.end ?? pause.start) - pause.start;
+  }
+  return offset;
+}
+
+/**
+ * Joins the timeline of a later session onto an earlier one, with the gap
+ * between them shown as paused. Offsets are from the earlier session's start.
+ */
+export function joinPostureTimelines(
+  earlier: PostureChange[],
+  later: PostureChange[],
+  gapStartMs: number,
+  laterStartMs: number
+): PostureChange[] {
+  const withGap = appendPostureChange(earlier, gapStartMs, 'paused');
+  return later.reduce(
+    (timeline, [offsetMs, state]) => appendPostureChange(timeline, offsetMs + laterStartMs, state),
+    withGap
+  );
+}
+
+const TIMELINE_STATES: PostureTimelineState[] = ['good', 'bad', 'absent', 'paused'];
+
+// Reads a stored timeline, dropping malformed entries; undefined if nothing usable is left
+export function normalizePostureTimeline(value: unknown): PostureChange[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const timeline = value.filter((change): change is PostureChange =>
+    Array.isArray(change) && typeof change[0] === 'number' && Number.isFinite(change[0]) &&
+    TIMELINE_STATES.includes(change[1])
+  );
+  return timeline.length > 0 ? timeline : undefined;
+}
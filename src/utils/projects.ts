@@ -0,0 +1,61 @@
+import { HistoryItem, SessionData } from '../types/history';
+
+// Label for sessions that weren't filed under a project
+export const NO_PROJECT = 'No project';
+
+export function normalizeProject(value: string): string | undefined {
+  const project = value.trim();
+  return project === '' ? undefined : project;
+}
+
+// Tags are matched case-insensitively, so they are stored lowercase without a leading #
+export function normalizeTag(value: string): string {
+  return value.trim().replace(/^#+/, '').toLowerCase();
+}
+
+const sessionsNewestFirst = (history: HistoryItem[]) =>
+  history
+    .filter((item): item is SessionData => item.type === "session")
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+/**
+ * Projects used in earlier sessions, most recently used first.
+ */
+export function getKnownProjects(history: HistoryItem[]): string[] {
+  const projects = new Set<string>();
+  sessionsNewestFirst(history).forEach(session => {
+    if (session.project) projects.add(session.project);
+  });
+  return Array.from(projects);
+}
+
+/**
+ * Tags used in earlier sessions, most recently used first.
+ */
+export function getKnownTags(history: HistoryItem[]): string[] {
+  const tags = new Set<string>();
+  sessionsNewestFirst(history).forEach(session => {
+    session.tags?.forEach(tag => tags.add(tag));
+  });
+  return Array.from(tags);
+}
+
+export interface HistoryFilter {
+  project?: string; // NO_PROJECT matches sessions without one
+  tag?: string;
+}
+
+export function matchesFilter(session: SessionData, filter: HistoryFilter): boolean {
+  if (filter.project !== undefined && (session.project ?? NO_PROJECT) !== filter.project) return false;
+  if (filter.tag !== undefined && !session.tags?.includes(filter.tag)) return false;
+  return true;
+}
+
+/**
+ * Sessions matching the filter. Breaks only show while nothing is filtered,
+ * since they don't belong to a project.
+ */
+export function filterHistory(history: HistoryItem[], filter: HistoryFilter): HistoryItem[] {
+  if (filter.project === undefined && filter.tag === undefined) return history;
+  return history.filter(item => item.type === "session" && matchesFilter(item, filter));
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { computeSessionStreak, evaluateStreakSession, describeStreakRules, normalizeStreakRules, DEFAULT_STREAK_RULES, StreakRules } from './streak';
+import { SessionData } from '../types/history';
+
+const session = (timestamp: number, distractions: number, extra: Partial<SessionData> = {}): SessionData => ({
+  type: "session",
+  id: `s${timestamp}`,
+  timestamp,
+  duration: 25 * 60 * 1000,
+  goal: 'Write',
+  distractions,
+  ...extra,
+});
+
+const rules = (changes: Partial<StreakRules>): StreakRules => ({ ...DEFAULT_STREAK_RULES, ...changes });
+
+describe('computeSessionStreak', () => {
+  it('counts qualifying sessions back to the last one with too many distractions', () => {
+    const history = [session(4, 0), session(3, 5), session(2, 6), session(1, 0)];
+    expect(computeSessionStreak(history)).toBe(2);
+  });
+
+  it('reflects edits to a session right away', () => {
+    const history = [session(2, 1), session(1, 0)];
+    expect(computeSessionStreak(history)).toBe(2);
+
+    const edited = history.map(item => (item.id === 's2' ? { ...item, distractions: 6 } : item));
+    expect(computeSessionStreak(edited)).toBe(0);
+  });
+
+  it('skips partial sessions and orders by timestamp', () => {
+    const history = [session(1, 0), session(3, 9, { partial: true }), session(2, 0)];
+    expect(computeSessionStreak(history)).toBe(2);
+  });
+});
+
+describe('evaluateStreakSession', () => {
+  it('requires the minimum posture, but only when the session has a score', () => {
+    expect(evaluateStreakSession(session(1, 0, { posture: 79 })).qualifies).toBe(false);
+    expect(evaluateStreakSession(session(1, 0, { posture: 80 })).qualifies).toBe(true);
+    expect(evaluateStreakSession(session(1, 0)).checks.map(check => check.rule)).toEqual(['distractions']);
+  });
+
+  it('explains each failed rule', () => {
+    const result = evaluateStreakSession(
+      session(1, 3, { posture: 70, duration: 10 * 60000 }),
+      rules({ maxDistractions: 2, minDurationMinutes: 15 })
+    );
+    expect(result.checks.filter(check => !check.passed).map(check => check.detail)).toEqual([
+      '3 of 2 distractions allowed',
+      'posture 70% (needs 80%)',
+      '10 min (needs 15 min)',
+    ]);
+  });
+
+  it('scales the distraction allowance by difficulty', () => {
+    const weighted = rules({ maxDistractions: 2, difficultyWeights: { easy: 0.5, medium: 1, hard: 2 } });
+    expect(evaluateStreakSession(session(1, 2, { difficulty: 'easy' }), weighted).qualifies).toBe(false);
+    expect(evaluateStreakSession(session(1, 4, { difficulty: 'hard' }), weighted).qualifies).toBe(true);
+  });
+});
+
+describe('describeStreakRules', () => {
+  it('names every active rule', () => {
+    expect(describeStreakRules()).toBe('Sessions with 5 distractions or fewer and posture at 80%+ grow it.');
+    expect(describeStreakRules(rules({ minPosture: 0, minDurationMinutes: 25, countAutoDistractions: true }))).toBe(
+      'Sessions with 5 distractions or fewer (time away counts) and at least 25 min grow it.'
+    );
+  });
+
+  it('spells out the allowance per difficulty when the weights differ', () => {
+    const weighted = rules({ maxDistractions: 2, minPosture: 0, difficultyWeights: { easy: 0.5, medium: 1, hard: 2 } });
+    expect(describeStreakRules(weighted)).toBe(
+      'Sessions with 1 distraction or fewer on easy, 2 distractions or fewer on medium, 4 distractions or fewer on hard grow it.'
+    );
+  });
+});
+
+describe('auto-detected distractions', () => {
+  const away = { offsetMs: 0, awayMs: 60000, source: 'hidden' as const };
+
+  it('only count toward the streak when enabled', () => {
+    const history = [session(1, 4, { autoDistractions: [away, away] })];
+    expect(computeSessionStreak(history)).toBe(1);
+    expect(computeSessionStreak(history, rules({ countAutoDistractions: true }))).toBe(0);
+  });
+
+  it('keep the old auto distraction opt-in until the rules store their own', () => {
+    expect(normalizeStreakRules(undefined, { enabled: true, countTowardStreak: true }).countAutoDistractions).toBe(true);
+    expect(normalizeStreakRules({ maxDistractions: 3 }, { countTowardStreak: true }).countAutoDistractions).toBe(true);
+    expect(normalizeStreakRules({ countAutoDistractions: false }, { countTowardStreak: true }).countAutoDistractions).toBe(false);
+    expect(normalizeStreakRules(undefined, undefined).countAutoDistractions).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { HistoryItem, SessionData, Difficulty } from '../types/history';
+
+/**
+ * What a session needs to keep the streak going. Every check lives in
+ * evaluateStreakSession, which the counter, history and summary all share.
+ */
+export interface StreakRules {
+  maxDistractions: number; // Most distractions a streak session may have, before difficulty weighting
+  minPosture: number; // Minimum posture %; 0 turns the check off
+  minDurationMinutes: number; // Shortest session that counts; 0 turns the check off
+  difficultyWeights: Record<Difficulty, number>; // Scales the distraction allowance per difficulty
+  countAutoDistractions: boolean; // Let auto-detected time away count like a logged distraction
+}
+
+// Defaults follow the PRD: posture of at least 80% and no more than 5 distractions
+export const DEFAULT_STREAK_RULES: StreakRules = {
+  maxDistractions: 5,
+  minPosture: 80,
+  minDurationMinutes: 0,
+  difficultyWeights: { easy: 1, medium: 1, hard: 1 },
+  countAutoDistractions: false,
+};
+
+export type StreakSession = Pick<SessionData, 'distractions' | 'autoDistractions' | 'posture' | 'duration' | 'difficulty'>;
+
+export interface StreakCheck {
+  rule: 'distractions' | 'posture' | 'duration';
+  passed: boolean;
+  detail: string; // e.g. "2 of 5 distractions allowed"
+  requirement: string; // What the rule asks for, e.g. "5 distractions or fewer"
+}
+
+export interface StreakEvaluation {
+  qualifies: boolean;
+  checks: StreakCheck[];
+}
+
+export const countStreakDistractions = (
+  session: Pick<SessionData, 'distractions' | 'autoDistractions'>,
+  rules: StreakRules = DEFAULT_STREAK_RULES
+): number =>
+  session.distractions + (rules.countAutoDistractions ? session.autoDistractions?.length ?? 0 : 0);
+
+export const getDistractionAllowance = (difficulty: Difficulty | undefined, rules: StreakRules): number =>
+  Math.floor(rules.maxDistractions * rules.difficultyWeights[difficulty ?? 'medium']);
+
+export function evaluateStreakSession(
+  session: StreakSession,
+  rules: StreakRules = DEFAULT_STREAK_RULES
+): StreakEvaluation {
+  const distractions = countStreakDistractions(session, rules);
+  const allowance = getDistractionAllowance(session.difficulty, rules);
+  const checks: StreakCheck[] = [{
+    rule: 'distractions',
+    passed: distractions <= allowance,
+    detail: `${distractions} of ${allowance} distractions allowed`,
+    requirement: `${allowance} ${allowance === 1 ? 'distraction' : 'distractions'} or fewer${rules.countAutoDistractions ? ' (time away counts)' : ''}`,
+  }];
+
+  // Sessions without a posture score (camera off, or recorded before posture
+  // tracking, see validateHistoryItem) aren't held to the posture rule
+  if (rules.minPosture > 0 && session.posture !== undefined) {
+    checks.push({
+      rule: 'posture',
+      passed: session.posture >= rules.minPosture,
+      detail: `posture ${session.posture}% (needs ${rules.minPosture}%)`,
+      requirement: `posture at ${rules.minPosture}%+`,
+    });
+  }
+
+  if (rules.minDurationMinutes > 0) {
+    const minutes = Math.floor(session.duration / 60000);
+    checks.push({
+      rule: 'duration',
+      passed: minutes >= rules.minDurationMinutes,
+      detail: `${minutes} min (needs ${rules.minDurationMinutes} min)`,
+      requirement: `at least ${rules.minDurationMinutes} min`,
+    });
+  }
+
+  return { qualifies: checks.every(check => check.passed), checks };
+}
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+const joinWords = (words: string[]) =>
+  words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words[0] ?? '';
+
+/**
+ * The rules in words, taken from the checks evaluateStreakSession runs on a
+ * session of each difficulty, so the wording can't drift from the rules.
+ */
+export function describeStreakRules(rules: StreakRules = DEFAULT_STREAK_RULES): string {
+  // A posture score makes the posture check show up when it is turned on
+  const checksByDifficulty = DIFFICULTIES.map(difficulty =>
+    evaluateStreakSession({ distractions: 0, posture: 0, duration: 0, difficulty }, rules).checks
+  );
+  const requirements = checksByDifficulty[0].map((check, index) => {
+    const perDifficulty = checksByDifficulty.map(checks => checks[index].requirement);
+    if (perDifficulty.every(requirement => requirement === check.requirement)) return check.requirement;
+    return perDifficulty.map((requirement, i) => `${requirement} on ${DIFFICULTIES[i]}`).join(', ');
+  });
+  return `Sessions with ${joinWords(requirements)} grow it.`;
+}
+
+export const breaksStreak = (session: StreakSession, rules: StreakRules = DEFAULT_STREAK_RULES): boolean =>
+  !evaluateStreakSession(session, rules).qualifies;
+
+/**
+ * Number of consecutive qualifying sessions, counting back from the most recent one.
+ * Partial sessions recovered from a closed tab neither extend nor break the streak.
+ */
+export function computeSessionStreak(
+  history: HistoryItem[],
+  rules: StreakRules = DEFAULT_STREAK_RULES
+): number {
+  const sessions = history
+    .filter((item): item is SessionData => item.type === "session" && !item.partial)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  let streak = 0;
+  for (const session of sessions) {
+    if (breaksStreak(session, rules)) break;
+    streak++;
+  }
+  return streak;
+}
+
+const toNonNegative = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+/**
+ * Stored streak rules with every field checked. Whether auto distractions
+ * count used to be `countTowardStreak` in the auto distraction config; the
+ * legacy import passes that config in so an earlier opt-in carries over.
+ */
+export function normalizeStreakRules(saved: unknown, legacyAutoDistractionConfig?: unknown): StreakRules {
+  const parsed = (saved ?? {}) as Partial<Record<keyof StreakRules, unknown>>;
+  const weights = (parsed.difficultyWeights ?? {}) as Partial<Record<Difficulty, unknown>>;
+  const legacy = (legacyAutoDistractionConfig ?? {}) as { countTowardStreak?: unknown };
+  const defaults = DEFAULT_STREAK_RULES;
+  return {
+    maxDistractions: toNonNegative(parsed.maxDistractions, defaults.maxDistractions),
+    minPosture: toNonNegative(parsed.minPosture, defaults.minPosture),
+    minDurationMinutes: toNonNegative(parsed.minDurationMinutes, defaults.minDurationMinutes),
+    difficultyWeights: {
+      easy: toNonNegative(weights.easy, defaults.difficultyWeights.easy),
+      medium: toNonNegative(weights.medium, defaults.difficultyWeights.medium),
+      hard: toNonNegative(weights.hard, defaults.difficultyWeights.hard),
+    },
+    countAutoDistractions: typeof parsed.countAutoDistractions === 'boolean'
+      ? parsed.countAutoDistractions
+      : legacy.countTowardStreak === true,
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createClock,
+  pauseClock,
+  resumeClock,
+  readClock,
+  correctClockSkew,
+} from './timerClock';
+
+const MINUTE = 60 * 1000;
+
+describe('timerClock', () => {
+  it('derives elapsed and remaining time from timestamps, not ticks', () => {
+    const clock = createClock(25 * MINUTE, 0);
+
+    // A throttled tab may not tick for minutes; the reading is still exact
+    const reading = readClock(clock, 7 * MINUTE + 500);
+    expect(reading.elapsedMs).toBe(7 * MINUTE + 500);
+    expect(reading.remainingMs).toBe(18 * MINUTE - 500);
+    expect(reading.isFinished).toBe(false);
+  });
+
+  it('excludes completed and ongoing pauses from elapsed time', () => {
+    let clock = createClock(25 * MINUTE, 0);
+    clock = pauseClock(clock, 5 * MINUTE);
+    clock = resumeClock(clock, 8 * MINUTE);
+    clock = pauseClock(clock, 10 * MINUTE);
+
+    const reading = readClock(clock, 11 * MINUTE);
+    expect(reading.pausedMs).toBe(4 * MINUTE);
+    expect(reading.elapsedMs).toBe(7 * MINUTE);
+  });
+
+  it('caps a timed session at its planned duration after sleeping past the end', () => {
+    const clock = createClock(25 * MINUTE, 0);
+
+    const reading = readClock(clock, 3 * 60 * MINUTE);
+    expect(reading.elapsedMs).toBe(25 * MINUTE);
+    expect(reading.remainingMs).toBe(0);
+    expect(reading.isFinished).toBe(true);
+  });
+
+  it('never finishes an infinite session', () => {
+    const clock = createClock(Number.MAX_SAFE_INTEGER, 0);
+
+    const reading = readClock(clock, 10 * 60 * MINUTE);
+    expect(reading.elapsedMs).toBe(10 * 60 * MINUTE);
+    expect(reading.isFinished).toBe(false);
+  });
+
+  it('shifts timestamps when the system clock is set back', () => {
+    const clock = pauseClock(createClock(25 * MINUTE, 10 * MINUTE), 15 * MINUTE);
+
+    // One second of real time passed, but the wall clock jumped back an hour
+    const corrected = correctClockSkew(clock, -60 * MINUTE + 1000, 1000);
+    expect(corrected.startedAt).toBe(10 * MINUTE - 60 * MINUTE);
+    expect(corrected.pausedAt).toBe(15 * MINUTE - 60 * MINUTE);
+  });
+
+  it('keeps wall time that ran ahead of the monotonic clock, as after sleep', () => {
+    const clock = createClock(25 * MINUTE, 0);
+
+    expect(correctClockSkew(clock, 30 * MINUTE, 1000)).toBe(clock);
+    expect(correctClockSkew(clock, 1000, 1500)).toBe(clock);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Wall-clock timer model. Instead of counting ticks, a timer is described by
+ * absolute timestamps, so throttled intervals, sleep/wake and missed ticks
+ * never change the result - every reading is recomputed from Date.now().
+ */
+export interface TimerClock {
+  startedAt: number; // Wall-clock ms when the timer was started
+  durationMs: number; // Number.MAX_SAFE_INTEGER for infinite sessions
+  pausedMs: number; // Sum of completed pause intervals
+  pausedAt: number | null; // Start of the current pause, if paused
+}
+
+export interface TimerReading {
+  elapsedMs: number; // Focus time, excluding pauses
+  remainingMs: number;
+  pausedMs: number; // Total paused time, including a pause still in progress
+  isFinished: boolean;
+}
+
+// Wall-clock jumps backwards larger than this are treated as a clock change
+export const CLOCK_SKEW_TOLERANCE_MS = 2000;
+
+export const isInfiniteDuration = (durationMs: number) => durationMs === Number.MAX_SAFE_INTEGER;
+
+export function createClock(durationMs: number, now: number): TimerClock {
+  return { startedAt: now, durationMs, pausedMs: 0, pausedAt: null };
+}
+
+export function pauseClock(clock: TimerClock, now: number): TimerClock {
+  if (clock.pausedAt !== null) return clock;
+  return { ...clock, pausedAt: now };
+}
+
+export function resumeClock(clock: TimerClock, now: number): TimerClock {
+  if (clock.pausedAt === null) return clock;
+  return {
+    ...clock,
+    pausedMs: clock.pausedMs + Math.max(0, now - clock.pausedAt),
+    pausedAt: null,
+  };
+}
+
+export function readClock(clock: TimerClock, now: number): TimerReading {
+  const currentPauseMs = clock.pausedAt !== null ? Math.max(0, now - clock.pausedAt) : 0;
+  const pausedMs = clock.pausedMs + currentPauseMs;
+  const rawElapsedMs = Math.max(0, now - clock.startedAt - pausedMs);
+
+  if (isInfiniteDuration(clock.durationMs)) {
+    return {
+      elapsedMs: rawElapsedMs,
+      remainingMs: clock.durationMs - rawElapsedMs,
+      pausedMs,
+      isFinished: false,
+    };
+  }
+
+  // A timed session never records more than it was planned for, even if the
+  // end was reached while the machine was asleep
+  const elapsedMs = Math.min(rawElapsedMs, clock.durationMs);
+  const remainingMs = clock.durationMs - elapsedMs;
+  return { elapsedMs, remainingMs, pausedMs, isFinished: remainingMs <= 0 };
+}
+
+/**
+ * Compensates for the system clock being set back. Between two samples the
+ * wall clock (Date.now) should advance at least as much as the monotonic
+ * clock (performance.now); if it advanced clearly less, the difference is a
+ * clock change and all timestamps are shifted by it. A wall clock running
+ * ahead is kept as real elapsed time, since that is what sleep/wake looks like.
+ */
+export function correctClockSkew(
+  clock: TimerClock,
+  wallDeltaMs: number,
+  monoDeltaMs: number
+): TimerClock {
+  const skewMs = wallDeltaMs - monoDeltaMs;
+  if (skewMs >= -CLOCK_SKEW_TOLERANCE_MS) return clock;
+
+  return {
+    ...clock,
+    startedAt: clock.startedAt + skewMs,
+    pausedAt: clock.pausedAt !== null ? clock.pausedAt + skewMs : null,
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { computeSessionXp, getLevelProgress } from './xp';
+
+const minutes = (count: number) => count * 60000;
+
+describe('computeSessionXp', () => {
+  it('earns a point per focus minute with no bonuses', () => {
+    expect(computeSessionXp({ duration: minutes(30), difficulty: 'easy', distractions: 4 })).toEqual({ base: 30, factors: [], total: 30 });
+  });
+
+  it('multiplies for difficulty, a clean session and good posture, and halves for ending early', () => {
+    const clean = computeSessionXp({ duration: minutes(40), difficulty: 'hard', distractions: 0, posture: 92 });
+    expect(clean.factors.map(factor => factor.multiplier)).toEqual([1.5, 1.2, 1.2]);
+    expect(clean.total).toBe(86);
+
+    const early = computeSessionXp({ duration: minutes(40), difficulty: 'hard', distractions: 0, posture: 92, endedEarly: true });
+    expect(early.total).toBe(43);
+  });
+});
+
+describe('getLevelProgress', () => {
+  it('follows a curve where each level needs 100 XP more than the last', () => {
+    expect(getLevelProgress(0)).toEqual({ level: 1, levelXp: 0, levelSpan: 100 });
+    expect(getLevelProgress(150)).toEqual({ level: 2, levelXp: 50, levelSpan: 200 });
+    expect(getLevelProgress(300).level).toBe(3);
+  });
+});
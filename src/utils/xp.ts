@@ -0,0 +1,72 @@
+import { HistoryItem, SessionData, Difficulty } from '../types/history';
+import { getDayStart } from './analytics';
+
+// One point per focus minute before multipliers
+export const XP_PER_MINUTE = 1;
+
+const DIFFICULTY_MULTIPLIERS: Record<Difficulty, number> = { easy: 1, medium: 1.25, hard: 1.5 };
+
+// Stopping a timed session before it runs out halves what it earns
+const ENDED_EARLY_MULTIPLIER = 0.5;
+
+export interface XpFactor {
+  label: string;
+  multiplier: number;
+}
+
+export interface SessionXp {
+  base: number; // Focus minutes times XP_PER_MINUTE
+  factors: XpFactor[]; // Only the ones that changed the result
+  total: number;
+}
+
+const getDistractionMultiplier = (distractions: number) => (distractions === 0 ? 1.2 : distractions <= 2 ? 1.1 : 1);
+
+const getPostureMultiplier = (posture: number | undefined) =>
+  posture === undefined ? 1 : posture >= 90 ? 1.2 : posture >= 80 ? 1.1 : 1;
+
+export function computeSessionXp(
+  session: Pick<SessionData, 'duration' | 'difficulty' | 'distractions' | 'posture' | 'endedEarly'>
+): SessionXp {
+  const base = Math.floor(session.duration / 60000) * XP_PER_MINUTE;
+  const candidates: XpFactor[] = [
+    { label: `${session.difficulty ?? 'medium'} task`, multiplier: DIFFICULTY_MULTIPLIERS[session.difficulty ?? 'medium'] },
+    {
+      label: session.distractions === 0 ? 'no distractions' : `${session.distractions} distractions`,
+      multiplier: getDistractionMultiplier(session.distractions),
+    },
+    { label: `posture ${session.posture}%`, multiplier: getPostureMultiplier(session.posture) },
+    { label: 'ended early', multiplier: session.endedEarly ? ENDED_EARLY_MULTIPLIER : 1 },
+  ];
+  const factors = candidates.filter(factor => factor.multiplier !== 1);
+  const total = Math.round(factors.reduce((xp, factor) => xp * factor.multiplier, base));
+  return { base, factors, total };
+}
+
+export function computeTotalXp(history: HistoryItem[]): number {
+  return history.reduce((sum, item) => (item.type === "session" ? sum + computeSessionXp(item).total : sum), 0);
+}
+
+/**
+ * XP earned in the day containing `now`, which rolls over at dayStartHour.
+ */
+export function computeDailyXp(history: HistoryItem[], dayStartHour: number, now: number = Date.now()): number {
+  const today = getDayStart(now, dayStartHour);
+  return computeTotalXp(history.filter(item => item.type === "session" && getDayStart(item.timestamp, dayStartHour) === today));
+}
+
+// Total XP needed to reach a level; each level takes 100 XP more than the last
+export const getLevelThreshold = (level: number): number => 50 * level * (level - 1);
+
+export interface LevelProgress {
+  level: number;
+  levelXp: number; // XP earned since reaching the current level
+  levelSpan: number; // XP between the current and the next level
+}
+
+export function getLevelProgress(totalXp: number): LevelProgress {
+  let level = 1;
+  while (getLevelThreshold(level + 1) <= totalXp) level++;
+  const start = getLevelThreshold(level);
+  return { level, levelXp: totalXp - start, levelSpan: getLevelThreshold(level + 1) - start };
+}